@@ -5,6 +5,7 @@ import { ResizablePanel, ResizablePanelGroup, ResizableHandle } from '@/componen
 import { useWebContainer } from '@/hooks/useWebContainer';
 import { useGitHubFiles } from '@/hooks/useGitHubFiles';
 import { useAIChat } from '@/hooks/useAIChat';
+import { useModelSelection } from '@/hooks/useModels';
 import { ChatPanel } from '@/components/ChatPanel';
 import { EditorPanel } from '@/components/EditorPanel';
 import { PreviewPanel } from '@/components/PreviewPanel';
@@ -24,6 +25,8 @@ import {
   CodePreviewTabContent 
 } from '@/components/ui/code-preview-tab';
 import { getTerminalStore } from '@/stores/terminal';
+import { takePendingImages } from '@/stores/attachments';
+import type { ImageAttachment } from '@/types/index';
 import type { Terminal as XTerm } from '@xterm/xterm'; // Import the actual XTerm type
 
 type Tab = 'Editor' | 'Preview';
@@ -61,6 +64,9 @@ const Workspace = () => {
   }, [showTerminal]);
   const [installSequenceTriggered, setInstallSequenceTriggered] = useState(false);
   const [promptSubmitted, setPromptSubmitted] = useState(false);
+  // Set when the initial prompt was refused, e.g. over the project budget. It is left in the chat input instead
+  const [unsentImages, setUnsentImages] = useState<ImageAttachment[] | null>(null);
+  const [resumeChecked, setResumeChecked] = useState(false);
   const [templateFallbackUsed, setTemplateFallbackUsed] = useState(false);
   
   // Add a ref to track the last active file to prevent infinite loops
@@ -102,13 +108,21 @@ const Workspace = () => {
     }
   }, [gitHubError, template.name, templateFallbackUsed, initialPrompt]);
 
+  // Model chosen for this project in the model picker
+  const { selection: modelSelection } = useModelSelection(template.name);
+
   // Handle AI chat functionality
   const {
     messages,
     input,
     setInput,
-    openRouterError,
+    chatError,
     sendMessageToAI,
+    retryLastMessage,
+    stopStreaming,
+    interruptedFile,
+    resolveInterruptedFile,
+    resumeInterruptedGeneration,
     processingFiles,
     streamingComplete,
     activeFile,
@@ -122,7 +136,9 @@ const Workspace = () => {
     webContainerInstance, 
     selectedFile, 
     setSelectedFile, 
-    runTerminalCommand
+    runTerminalCommand,
+    modelSelection,
+    template.name
   );
 
   // Run npm install and start dev server after files are loaded
@@ -158,11 +174,37 @@ const Workspace = () => {
     gitHubError
   ]);
 
+  // Resume a response that was still streaming when the page was reloaded, instead of sending the prompt again
+  useEffect(() => {
+    if (
+      !resumeChecked &&
+      webContainerInstance &&
+      !isLoadingGitHubFiles &&
+      !isInitializingWebContainer &&
+      !isInstallingDeps
+    ) {
+      setResumeChecked(true);
+
+      if (resumeInterruptedGeneration()) {
+        setPromptSubmitted(true);
+      }
+    }
+  }, [
+    resumeChecked,
+    webContainerInstance,
+    isLoadingGitHubFiles,
+    isInitializingWebContainer,
+    isInstallingDeps,
+    resumeInterruptedGeneration
+  ]);
+
   // Submit initial prompt from URL if present
   useEffect(() => {
     if (
       initialPrompt && 
+      resumeChecked &&
       !promptSubmitted && 
+      !unsentImages &&
       webContainerInstance && 
       !isLoadingGitHubFiles && 
       !isInitializingWebContainer &&
@@ -173,15 +215,23 @@ const Workspace = () => {
       const timer = setTimeout(() => {
         console.log("Submitting initial prompt from URL:", initialPrompt);
         setInput(initialPrompt);
-        sendMessageToAI(initialPrompt);
-        setPromptSubmitted(true);
+
+        const images = takePendingImages();
+
+        if (sendMessageToAI(initialPrompt, { images })) {
+          setPromptSubmitted(true);
+        } else {
+          setUnsentImages(images);
+        }
       }, 1000);
       
       return () => clearTimeout(timer);
     }
   }, [
     initialPrompt, 
+    resumeChecked,
     promptSubmitted, 
+    unsentImages,
     webContainerInstance, 
     isLoadingGitHubFiles, 
     isInitializingWebContainer,
@@ -325,11 +375,13 @@ const Workspace = () => {
 
       <div className="flex-shrink-0 w-96 max-w-[24rem] min-w-[20rem] overflow-x-hidden">
         <ChatPanel
+          projectId={template.name}
           messages={messages}
           input={input}
           setInput={setInput}
           sendMessageToAI={sendMessageToAI}
-          openRouterError={openRouterError}
+          chatError={chatError}
+          onRetry={retryLastMessage}
           isProcessing={processingFiles}
           streamingComplete={streamingComplete}
           activeFile={activeFile}
@@ -340,6 +392,10 @@ const Workspace = () => {
           isInstallingDeps={isInstallingDeps}
           isStartingDevServer={isStartingDevServer}
           progress={streamingData?.progressUpdates}
+          onStop={stopStreaming}
+          interruptedFile={interruptedFile}
+          onResolveInterruptedFile={resolveInterruptedFile}
+          unsentImages={unsentImages ?? undefined}
         />
       </div>
 
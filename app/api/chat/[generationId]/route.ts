@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { abortGeneration, readGeneration } from '@/lib/server/generation-store';
+import { getRateLimitKey } from '@/lib/server/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { generationId: string };
+}
+
+// Resumes a generation's data stream from the offset the client reached. Another client's generation is reported as
+// not found, so ids can't be probed
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const offset = Number(request.nextUrl.searchParams.get('offset')) || 0;
+  const stream = readGeneration(params.generationId, getRateLimitKey(request), Math.max(0, offset));
+
+  if (!stream) {
+    return NextResponse.json({ error: 'Generation not found or expired' }, { status: 404 });
+  }
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      Connection: 'keep-alive',
+      'Cache-Control': 'no-cache',
+      'Text-Encoding': 'chunked',
+      'X-Generation-Id': params.generationId,
+    },
+  });
+}
+
+// Stops a generation, closing the connection alone leaves it running for a possible reconnect
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!abortGeneration(params.generationId, getRateLimitKey(request))) {
+    return NextResponse.json({ error: 'Generation not found or expired' }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
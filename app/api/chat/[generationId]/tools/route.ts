@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { submitToolResult } from '@/lib/server/tool-bridge';
+import { isGenerationOwner } from '@/lib/server/generation-store';
+import { getRateLimitKey } from '@/lib/server/rate-limit';
+import { MAX_TOOL_RESULT_BODY_BYTES, parseRequestBody, toolResultRequestSchema } from '@/lib/server/request-schemas';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { generationId: string };
+}
+
+// Receives the result of a tool call the browser ran for a generation. Only the client that started the generation
+// may answer its tool calls, another client's generation is reported as not found
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  if (!isGenerationOwner(params.generationId, getRateLimitKey(request))) {
+    return NextResponse.json({ error: 'Generation not found or expired' }, { status: 404 });
+  }
+
+  const body = await parseRequestBody(request, toolResultRequestSchema, MAX_TOOL_RESULT_BODY_BYTES);
+
+  if (!body.success) {
+    return body.response;
+  }
+
+  if (!submitToolResult(params.generationId, body.data.toolCallId, body.data.result)) {
+    return NextResponse.json({ error: 'Tool call not found or no longer waiting' }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -1,85 +1,227 @@
-import { createDataStream, generateId } from 'ai';
-import { CONTINUE_PROMPT } from '@/lib/prompt';
+import { createDataStream, generateId, type LanguageModelUsage } from 'ai';
 import { streamText, type Messages, type StreamingOptions } from '@/lib/server/stream-text';
-import SwitchableStream from '@/lib/server/switchable-stream';
-import type { IProviderSetting, FileMap } from '@/types/index';
+import type { FileMap } from '@/types/index';
 import { getFilePaths, selectContext } from '@/lib/server/select-context';
-import type { ContextAnnotation, ProgressAnnotation } from '@/types/index';
-import { WORK_DIR } from '@/lib/prompt';
+import type {
+  BudgetAnnotation,
+  CodeContextAnnotation,
+  ContextAnnotation,
+  PipelineStage,
+  PromptFallbackAnnotation,
+  ProgressAnnotation,
+  TokenBudget,
+  TraceSpan,
+  UnmatchedContextFile,
+  UsageAnnotation,
+  UsageInfo,
+} from '@/types/index';
 import { createSummary } from '@/lib/server/create-summary';
-import { extractPropertiesFromMessage } from '@/lib/server/serverUtils';
-import { MAX_TOKENS_NO_SUMMARY } from '@/lib/constants';
-import { countMessageTokens } from '@/lib/tokenizer';
+import { PromptLibrary } from '@/lib/prompt-library';
+import {
+  extractPropertiesFromMessage,
+  getModelRouting,
+  getProviderSettingsFromCookies,
+  normalizeProjectPath,
+} from '@/lib/server/serverUtils';
+import { MAX_TOKENS_NO_SUMMARY, type FallbackTask } from '@/lib/constants';
+import { getModelFamily } from '@/lib/tokenizer';
+import { countHistoryTokens } from '@/lib/server/token-budget';
+import { getProvider, resolveModel } from '@/lib/provider';
+import type { ModelSelectedInfo } from '@/lib/server/model-fallback';
+import { calculateCost, getModelPricing } from '@/lib/server/cost';
+import { bufferGeneration, createGeneration, readGeneration } from '@/lib/server/generation-store';
+import { ChatRouteError, chatErrorResponse, toChatError } from '@/lib/server/chat-errors';
+import {
+  checkRateLimit,
+  getClientIp,
+  getRateLimitKey,
+  rateLimitResponse,
+  recordTokenUsage,
+} from '@/lib/server/rate-limit';
+import { chatRequestSchema, MAX_CHAT_BODY_BYTES, parseRequestBody } from '@/lib/server/request-schemas';
+import { createContinuationPrompt, describeContinuation, stitchContinuation } from '@/lib/server/continuation';
+import { createChatTools, MAX_TOOL_STEPS, type ToolProgressEvent } from '@/lib/server/chat-tools';
+import { RequestTrace } from '@/lib/server/tracing';
 
 
 
 const MAX_RESPONSE_SEGMENTS = 10;
-const MAX_TOKENS = 65536;
 
-function parseCookies(cookieHeader: string): Record<string, string> {
-  const cookies: Record<string, string> = {};
-
-  const items = cookieHeader.split(';').map((cookie) => cookie.trim());
-
-  items.forEach((item) => {
-    const [name, ...rest] = item.split('=');
+export async function POST(request: Request) {
+  const rateLimitKey = getRateLimitKey(request);
+  const rateLimit = await checkRateLimit(rateLimitKey, getClientIp(request));
 
-    if (name && rest) {
-      const decodedName = decodeURIComponent(name.trim());
-      const decodedValue = decodeURIComponent(rest.join('=').trim());
-      cookies[decodedName] = decodedValue;
-    }
-  });
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit);
+  }
 
-  return cookies;
-}
+  const body = await parseRequestBody(request, chatRequestSchema, MAX_CHAT_BODY_BYTES);
 
-export async function POST(request: Request) {
-  const { messages, files, promptId, contextOptimization } = await request.json() as {
-    messages: Messages;
-    files: any;
-    promptId?: string;
-    contextOptimization: boolean;
-  };
-
-  const cookieHeader = request.headers.get('Cookie');
-  const apiKeys = JSON.parse(parseCookies(cookieHeader || '').apiKeys || '{}');
-  const providerSettings: Record<string, IProviderSetting> = JSON.parse(
-    parseCookies(cookieHeader || '').providers || '{}',
-  );
+  if (!body.success) {
+    return body.response;
+  }
 
-  const stream = new SwitchableStream();
+  const {
+    files,
+    promptId,
+    customPrompt,
+    contextOptimization,
+    modelRouting: requestRouting,
+    forceSummary,
+    toolCalling,
+    commandTool,
+  } = body.data;
+
+  // Multimodal content arrays are passed through as is, stream-text converts them for the model
+  const messages = body.data.messages.map((message) => ({ ...message, id: message.id || generateId() })) as Messages;
+
+  const { apiKeys, providerSettings } = getProviderSettingsFromCookies(request.headers.get('Cookie'));
+  const modelRouting = getModelRouting(request.headers.get('Cookie'), requestRouting);
+
+  // Output segments of the response so far, a new one starts each time the model hits its output limit
+  let responseSegments = 1;
+  // The response across all segments, continuations pick up from its end
+  let responseText = '';
+  // Progress of the running continuation, marked complete when its segment finishes
+  let continuationProgress: ProgressAnnotation | undefined;
 
   const cumulativeUsage = {
     completionTokens: 0,
     promptTokens: 0,
     totalTokens: 0,
   };
+  // Usage per stage, priced once we know which model answered it
+  const stageUsage: Partial<Record<FallbackTask, UsageInfo>> = {};
+  const selectedModels: Partial<Record<FallbackTask, ModelSelectedInfo>> = {};
+
+  const addUsage = (task: FallbackTask, usage: LanguageModelUsage) => {
+    const current = stageUsage[task] || { completionTokens: 0, promptTokens: 0, totalTokens: 0 };
+
+    cumulativeUsage.completionTokens += usage.completionTokens || 0;
+    cumulativeUsage.promptTokens += usage.promptTokens || 0;
+    cumulativeUsage.totalTokens += usage.totalTokens || 0;
+    recordTokenUsage(rateLimitKey, usage.totalTokens || 0);
+    stageUsage[task] = {
+      completionTokens: current.completionTokens + (usage.completionTokens || 0),
+      promptTokens: current.promptTokens + (usage.promptTokens || 0),
+      totalTokens: current.totalTokens + (usage.totalTokens || 0),
+    };
+  };
+
+  // Stages whose model has no pricing are left out of the total, which is then flagged as partial
+  const getTotalCost = async (): Promise<Pick<UsageInfo, 'cost' | 'costPartial'>> => {
+    let total: number | undefined;
+    let costPartial = false;
+
+    for (const [task, usage] of Object.entries(stageUsage) as [FallbackTask, UsageInfo][]) {
+      const selected = selectedModels[task];
+      const pricing = selected
+        ? await getModelPricing({
+            model: selected.model,
+            provider: getProvider(selected.provider),
+            serverEnv: process.env,
+            apiKeys,
+            providerSettings,
+          })
+        : undefined;
+      const cost = calculateCost(usage, pricing);
+
+      if (cost === undefined) {
+        costPartial = true;
+      } else {
+        total = (total || 0) + cost;
+      }
+    }
+
+    return { cost: total, ...(costPartial && total !== undefined && { costPartial }) };
+  };
+
   const encoder: TextEncoder = new TextEncoder();
   let progressCounter: number = 1;
+  // The stage that is running, reported along with any error
+  let stage: PipelineStage = 'response';
 
   try {
     // Extract model from the last user message to determine tokenizer
     const lastUserMessage = messages.filter(m => m.role === 'user').slice(-1)[0];
-    const { model } = extractPropertiesFromMessage(lastUserMessage);
+    const { model: requestedModel, provider: providerName } = extractPropertiesFromMessage(
+      lastUserMessage,
+      modelRouting.response,
+    );
+    const provider = getProvider(providerName);
+    const { name: model, maxTokenAllowed, fallbackFrom } = await resolveModel({
+      model: requestedModel,
+      provider,
+      serverEnv: process.env,
+      apiKeys,
+      providerSettings,
+    });
     
     // Determine model family for token counting
-    const modelFamily = model?.toLowerCase().includes('gemini') 
-      ? 'gemini' 
-      : model?.toLowerCase().includes('claude') 
-        ? 'claude' 
-        : model?.toLowerCase().includes('gpt') 
-          ? 'gpt' 
-          : 'default';
+    const modelFamily = getModelFamily(model);
     
     // Count tokens accurately using the appropriate tokenizer
-    const totalTokenCount = countMessageTokens(messages, modelFamily as any);
-    console.log(`Total message tokens: ${totalTokenCount} (using ${modelFamily} tokenizer)`);
+    const totalTokenCount = countHistoryTokens(messages, modelFamily).reduce((total, tokens) => total + tokens, 0);
+
+    // The output is buffered under this id so a client can reconnect after a reload or network drop. It must not be
+    // guessable, and only the client that started the generation may resume or stop it
+    const generationId = crypto.randomUUID();
+    const abortSignal = createGeneration(generationId, rateLimitKey);
+
+    // Stage timings, models, tokens and selected files of this request, browsable at /traces
+    const trace = new RequestTrace({
+      model,
+      provider: provider.name,
+      messageCount: messages.length,
+      historyTokens: totalTokenCount,
+    });
 
-    let lastChunk: string | undefined = undefined;
+    abortSignal.addEventListener('abort', () => trace.finish('aborted'), { once: true });
 
     const dataStream = createDataStream({
       async execute(dataStream) {
+        // The user is told when their selected prompt is ignored, rather than getting a different answer style silently
+        const promptFallbackReason = promptId ? PromptLibrary.getFallbackReason(promptId, customPrompt) : undefined;
+
+        if (promptId && promptFallbackReason) {
+          dataStream.writeMessageAnnotation({
+            type: 'promptFallback',
+            promptId,
+            message: promptFallbackReason,
+          } as PromptFallbackAnnotation);
+        }
+
+        // Record which model actually answered each stage, including fallbacks
+        const onModelSelected = (info: ModelSelectedInfo) => {
+          selectedModels[info.task] = info;
+          trace.recordModel(info.task, info.model, info.provider, info.fallbackFrom);
+          dataStream.writeMessageAnnotation({ type: 'model', ...info } as ContextAnnotation);
+        };
+
+        // Report how each response call was fitted into the model's context window
+        const onTokenBudget = (budget: TokenBudget) => {
+          trace.recordAttributes('response', {
+            contextLength: budget.contextLength,
+            reservedOutput: budget.reservedOutput,
+            historyTokens: budget.history,
+            contextBufferTokens: budget.contextBuffer,
+            droppedMessages: budget.droppedMessages,
+            droppedFiles: budget.droppedFiles,
+            truncatedFiles: budget.truncatedFiles,
+          });
+          dataStream.writeMessageAnnotation({ type: 'budget', value: budget } as BudgetAnnotation);
+        };
+
+        if (fallbackFrom) {
+          dataStream.writeData({
+            type: 'progress',
+            label: 'model',
+            status: 'complete',
+            order: progressCounter++,
+            message: `Model "${fallbackFrom}" is not available, using "${model}" instead`,
+          } satisfies ProgressAnnotation);
+        }
+
         const filePaths = getFilePaths(files || {});
         let filteredFiles: FileMap | undefined = undefined;
         let summary: string | undefined = undefined;
@@ -91,10 +233,9 @@ export async function POST(request: Request) {
 
         if (filePaths.length > 0 && contextOptimization) {
           // Skip summary creation if message is below token threshold
-          const shouldCreateSummary = totalTokenCount > MAX_TOKENS_NO_SUMMARY;
+          const shouldCreateSummary = forceSummary || totalTokenCount > MAX_TOKENS_NO_SUMMARY;
           
           if (shouldCreateSummary) {
-            console.log('Generating Chat Summary');
             dataStream.writeData({
               type: 'progress',
               label: 'summary',
@@ -104,7 +245,9 @@ export async function POST(request: Request) {
             } satisfies ProgressAnnotation);
 
             // Create a summary of the chat
-            console.log(`Messages count: ${messages.length}`);
+            stage = 'summary';
+
+            const summarySpan = trace.startSpan('summary', { forced: Boolean(forceSummary) });
 
             summary = await createSummary({
               messages: [...messages],
@@ -113,15 +256,17 @@ export async function POST(request: Request) {
               providerSettings,
               promptId,
               contextOptimization,
+              model: modelRouting.summary,
+              onModelSelected,
+              abortSignal,
               onFinish(resp) {
                 if (resp.usage) {
-                  console.log('createSummary token usage', JSON.stringify(resp.usage));
-                  cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                  cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                  cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                  addUsage('summary', resp.usage);
+                  trace.recordUsage('summary', resp.usage);
                 }
               },
             });
+            trace.endSpan(summarySpan, { summaryChars: summary.length });
             dataStream.writeData({
               type: 'progress',
               label: 'summary',
@@ -135,12 +280,9 @@ export async function POST(request: Request) {
               summary,
               chatId: messages.slice(-1)?.[0]?.id,
             } as ContextAnnotation);
-          } else {
-            console.log('Skipping summary creation - message under token threshold');
           }
 
           // Update context buffer
-          console.log('Updating Context Buffer');
           dataStream.writeData({
             type: 'progress',
             label: 'context',
@@ -150,7 +292,10 @@ export async function POST(request: Request) {
           } satisfies ProgressAnnotation);
 
           // Select context files
-          console.log(`Messages count: ${messages.length}`);
+          stage = 'context';
+
+          const contextSpan = trace.startSpan('context', { candidateFiles: filePaths.length });
+          let unmatchedFiles: UnmatchedContextFile[] = [];
           filteredFiles = await selectContext({
             messages: [...messages],
             env: process.env,
@@ -160,42 +305,36 @@ export async function POST(request: Request) {
             promptId,
             contextOptimization,
             summary,
+            model: modelRouting.context,
+            onModelSelected,
+            onUnmatchedFiles(files) {
+              unmatchedFiles = files;
+            },
+            onTraceEvent(name, attributes) {
+              trace.recordEvent('context', name, attributes);
+            },
+            abortSignal,
             onFinish(resp) {
               if (resp.usage) {
-                console.log('selectContext token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                addUsage('context', resp.usage);
+                trace.recordUsage('context', resp.usage);
               }
             },
           });
 
-          if (filteredFiles) {
-            console.log(`files in context : ${JSON.stringify(Object.keys(filteredFiles))}`);
-          }
-
-          // Process paths to ensure they're all relative
-          const processedPaths = Object.keys(filteredFiles).map((key) => {
-            let path = key;
+          const processedPaths = Object.keys(filteredFiles).map(normalizeProjectPath);
 
-            // First remove the work dir prefix if present
-            if (path.startsWith(WORK_DIR)) {
-              path = path.replace(WORK_DIR, '');
-            }
-
-            // Make sure we don't have any leading slashes to ensure path is relative
-            while (path.startsWith('/')) {
-              path = path.substring(1);
-            }
-
-            console.log(`Processed path: ${key} -> ${path}`);
-            return path;
+          trace.endSpan(contextSpan, {
+            selectedFiles: processedPaths,
+            ...(unmatchedFiles.length > 0 && { unmatchedFiles: unmatchedFiles.map((file) => file.path) }),
           });
+          trace.setSelectedFiles(processedPaths);
 
           dataStream.writeMessageAnnotation({
             type: 'codeContext',
             files: processedPaths,
-          } as ContextAnnotation);
+            ...(unmatchedFiles.length > 0 && { unmatchedFiles }),
+          } as CodeContextAnnotation);
 
           dataStream.writeData({
             type: 'progress',
@@ -208,26 +347,75 @@ export async function POST(request: Request) {
           // logger.debug('Code Files Selected');
         }
 
+        // Progress order and trace span of each running tool call, so its completion updates the same entry
+        const toolProgressOrders: Record<string, number> = {};
+        const toolSpans: Record<string, TraceSpan> = {};
+
+        const onToolProgress = ({ toolCallId, toolName, status, message }: ToolProgressEvent) => {
+          toolProgressOrders[toolCallId] ??= progressCounter++;
+
+          if (status === 'in-progress') {
+            toolSpans[toolCallId] = trace.startSpan('tool', { tool: toolName, call: message });
+          } else if (toolSpans[toolCallId]) {
+            trace.endSpan(toolSpans[toolCallId]);
+          }
+
+          dataStream.writeData({
+            type: 'progress',
+            label: 'tool',
+            status,
+            order: toolProgressOrders[toolCallId],
+            message,
+          } satisfies ProgressAnnotation);
+        };
+
+        // The running response or continuation segment
+        let responseSpan: TraceSpan | undefined;
+
         const options: StreamingOptions = {
-          toolChoice: 'none',
+          // In tool-calling mode the model can read files, and run commands when the user allowed it, in the browser
+          // between steps
+          ...(toolCalling
+            ? {
+                toolChoice: 'auto',
+                tools: createChatTools({ generationId, allowCommands: commandTool, abortSignal, onToolProgress }),
+                maxSteps: MAX_TOOL_STEPS,
+              }
+            : { toolChoice: 'none' }),
+          // Stops the model call on a stop request, or when the client is gone for good
+          abortSignal,
           onFinish: async ({ text: content, finishReason, usage }) => {
-            console.log('usage', JSON.stringify(usage));
-
             if (usage) {
-              cumulativeUsage.completionTokens += usage.completionTokens || 0;
-              cumulativeUsage.promptTokens += usage.promptTokens || 0;
-              cumulativeUsage.totalTokens += usage.totalTokens || 0;
+              addUsage('response', usage);
+              trace.recordUsage('response', usage);
+            }
+
+            if (responseSpan) {
+              trace.endSpan(responseSpan, { finishReason, segment: responseSegments });
+            }
+
+            responseText += content;
+
+            if (continuationProgress) {
+              dataStream.writeData({ ...continuationProgress, status: 'complete' } satisfies ProgressAnnotation);
+              continuationProgress = undefined;
             }
 
             if (finishReason !== 'length') {
+              const { cost, costPartial } = await getTotalCost();
+
               dataStream.writeMessageAnnotation({
                 type: 'usage',
                 value: {
                   completionTokens: cumulativeUsage.completionTokens,
                   promptTokens: cumulativeUsage.promptTokens,
                   totalTokens: cumulativeUsage.totalTokens,
+                  cost,
+                  costPartial,
                 },
-              });
+              } as UsageAnnotation);
+              trace.setCost(cost);
+              trace.finish('ok');
               dataStream.writeData({
                 type: 'progress',
                 label: 'response',
@@ -241,38 +429,68 @@ export async function POST(request: Request) {
               return;
             }
 
-            if (stream.switches >= MAX_RESPONSE_SEGMENTS) {
-              throw Error('Cannot continue message: Maximum segments reached');
+            // The generation was stopped or abandoned, so don't pay for another segment
+            if (abortSignal.aborted) {
+              return;
+            }
+
+            if (responseSegments >= MAX_RESPONSE_SEGMENTS) {
+              throw new ChatRouteError(
+                'max-segments',
+                `The response is still unfinished after ${MAX_RESPONSE_SEGMENTS} segments`,
+              );
             }
 
-            const switchesLeft = MAX_RESPONSE_SEGMENTS - stream.switches;
+            responseSegments++;
+
+            continuationProgress = {
+              type: 'progress',
+              label: 'continuation',
+              status: 'in-progress',
+              order: progressCounter++,
+              message: describeContinuation(responseText),
+              segment: responseSegments,
+            };
+            dataStream.writeData(continuationProgress);
 
-            console.log(`Reached max token limit (${MAX_TOKENS}): Continuing message (${switchesLeft} switches left)`);
+            // Continue with the resolved model so a fallback is not re-negotiated on every segment
+            const continuationModel = modelRouting.continuation || { model, provider: provider.name };
 
-            const lastUserMessage = messages.filter((x) => x.role == 'user').slice(-1)[0];
-            const { model, provider } = extractPropertiesFromMessage(lastUserMessage);
             messages.push({ id: generateId(), role: 'assistant', content });
             messages.push({
               id: generateId(),
               role: 'user',
-              content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${CONTINUE_PROMPT}`,
+              content: `[Model: ${continuationModel.model}]\n\n[Provider: ${continuationModel.provider}]\n\n${createContinuationPrompt(responseText)}`,
+            });
+
+            stage = 'continuation';
+            responseSpan = trace.startSpan('continuation', { segment: responseSegments });
+            trace.recordEvent('response', 'max-output-tokens', {
+              maxTokens: maxTokenAllowed,
+              segment: responseSegments,
+              maxSegments: MAX_RESPONSE_SEGMENTS,
             });
 
             const result = await streamText({
               messages,
               env: process.env,
-              options,
+              // Drops whatever the model repeats from the end of the previous segment
+              options: { ...options, experimental_transform: stitchContinuation(responseText) },
               apiKeys,
               files,
               providerSettings,
               promptId,
+              customPrompt,
               contextOptimization,
               contextFiles: filteredFiles,
               summary,
               messageSliceId,
+              model: continuationModel,
+              onModelSelected,
+              onTokenBudget,
             });
 
-            result.mergeIntoDataStream(dataStream);
+            result.mergeIntoDataStream(dataStream, { sendReasoning: true });
 
             (async () => {
               for await (const part of result.fullStream) {
@@ -297,6 +515,9 @@ export async function POST(request: Request) {
           message: 'Generating Response',
         } satisfies ProgressAnnotation);
 
+        stage = 'response';
+        responseSpan = trace.startSpan('response', { toolCalling: Boolean(toolCalling) });
+
         const result = await streamText({
           messages,
           env: process.env,
@@ -305,10 +526,14 @@ export async function POST(request: Request) {
           files,
           providerSettings,
           promptId,
+          customPrompt,
           contextOptimization,
           contextFiles: filteredFiles,
           summary,
           messageSliceId,
+          model: { model, provider: provider.name },
+          onModelSelected,
+          onTokenBudget,
         });
 
         (async () => {
@@ -321,69 +546,44 @@ export async function POST(request: Request) {
             }
           }
         })();
-        result.mergeIntoDataStream(dataStream);
+        result.mergeIntoDataStream(dataStream, { sendReasoning: true });
       },
-      onError: (error: any) => `Custom error: ${error.message}`,
-    }).pipeThrough(
-      new TransformStream({
-        transform: (chunk, controller) => {
-          if (!lastChunk) {
-            lastChunk = ' ';
-          }
-
-          if (typeof chunk === 'string') {
-            if (chunk.startsWith('g') && !lastChunk.startsWith('g')) {
-              controller.enqueue(encoder.encode(`0: "<div class=\\"__boltThought__\\">"\n`));
-            }
-
-            if (lastChunk.startsWith('g') && !chunk.startsWith('g')) {
-              controller.enqueue(encoder.encode(`0: "</div>\\n"\n`));
-            }
-          }
-
-          lastChunk = chunk;
+      // Errors reach the client as a typed error part, see toChatError
+      onError: (error: any) => {
+        console.error(`Chat ${stage} failed:`, error);
 
-          let transformedChunk = chunk;
+        const chatError = toChatError(error, stage);
 
-          if (typeof chunk === 'string' && chunk.startsWith('g')) {
-            let content = chunk.split(':').slice(1).join(':');
-
-            if (content.endsWith('\n')) {
-              content = content.slice(0, content.length - 1);
-            }
-
-            transformedChunk = `0:${content}\n`;
-          }
+        trace.finish('error', chatError);
 
+        return JSON.stringify(chatError);
+      },
+    }).pipeThrough(
+      new TransformStream({
+        // Reasoning stays in its own `g:` parts, the client shows it apart from the answer
+        transform: (chunk, controller) => {
           // Convert the string stream to a byte stream
-          const str = typeof transformedChunk === 'string' ? transformedChunk : JSON.stringify(transformedChunk);
+          const str = typeof chunk === 'string' ? chunk : JSON.stringify(chunk);
           controller.enqueue(encoder.encode(str));
         },
       }),
     );
 
-    return new Response(dataStream, {
+    bufferGeneration(generationId, dataStream);
+
+    return new Response(readGeneration(generationId, rateLimitKey), {
       status: 200,
       headers: {
         'Content-Type': 'text/event-stream; charset=utf-8',
         Connection: 'keep-alive',
         'Cache-Control': 'no-cache',
         'Text-Encoding': 'chunked',
+        'X-Generation-Id': generationId,
       },
     });
   } catch (error: any) {
     console.error(error);
 
-    if (error.message?.includes('API key')) {
-      throw new Response('Invalid or missing API key', {
-        status: 401,
-        statusText: 'Unauthorized',
-      });
-    }
-
-    throw new Response(null, {
-      status: 500,
-      statusText: 'Internal Server Error',
-    });
+    return chatErrorResponse(error, stage);
   }
 }
\ No newline at end of file
@@ -1,114 +1,90 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+import { streamText } from 'ai';
+import { getProvider } from '@/lib/provider';
+import { getModelRouting, getProviderSettingsFromCookies } from '@/lib/server/serverUtils';
+import { DEFAULT_MODEL_ROUTING } from '@/lib/constants';
+import {
+  checkRateLimit,
+  getClientIp,
+  getRateLimitKey,
+  rateLimitResponse,
+  recordTokenUsage,
+} from '@/lib/server/rate-limit';
+import { enhancerRequestSchema, MAX_ENHANCER_BODY_BYTES, parseRequestBody } from '@/lib/server/request-schemas';
 
 export async function POST(request: NextRequest) {
-  try {
-    const { message, model, provider } = await request.json();
+  const rateLimitKey = getRateLimitKey(request);
+  const rateLimit = await checkRateLimit(rateLimitKey, getClientIp(request));
 
-    // Validate inputs
-    if (!message || typeof message !== 'string') {
-      return NextResponse.json({ error: 'Invalid or missing message' }, { status: 400 });
-    }
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit);
+  }
 
-    if (!model || typeof model !== 'string') {
-      return NextResponse.json({ error: 'Invalid or missing model' }, { status: 400 });
-    }
+  const body = await parseRequestBody(request, enhancerRequestSchema, MAX_ENHANCER_BODY_BYTES);
 
-    if (!provider || typeof provider.name !== 'string') {
-      return NextResponse.json({ error: 'Invalid or missing provider' }, { status: 400 });
-    }
-
-    // Create a ReadableStream
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          const response = await fetch(OPENROUTER_API_URL, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY || ''}`,
-              'HTTP-Referer': request.headers.get('referer') || 'https://geminicoder.com',
-              'X-Title': 'GeminiCoder',
-            },
-            body: JSON.stringify({
-              model: 'openai/gpt-4o-mini', // Always use this model for enhancing
-              temperature: 0.1,
-              messages: [
-                {
-                  role: 'system',
-                  content: 'You are a senior software principal architect, you should help the user analyse the user query and enrich it with the necessary context and constraints to make it more specific, actionable, and effective. You should also ensure that the prompt is self-contained and uses professional language. Your response should ONLY contain the enhanced prompt text. Do not include any explanations, metadata, or wrapper tags.'
-                },
-                {
-                  role: 'user',
-                  content: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n` +
-                    `You are a professional prompt engineer specializing in crafting precise, effective prompts.
-                    Your task is to enhance prompts by making them more specific, actionable, and effective.
+  if (!body.success) {
+    return body.response;
+  }
 
-                    I want you to improve the user prompt that is wrapped in \`<original_prompt>\` tags.
+  try {
+    const { message, modelRouting } = body.data;
 
-                    For valid prompts:
-                    - Make instructions explicit and unambiguous
-                    - Add relevant context and constraints
-                    - Remove redundant information
-                    - Maintain the core intent
-                    - Ensure the prompt is self-contained
-                    - Use professional language
+    // Prefer the user's own keys from the settings cookies
+    const { apiKeys, providerSettings } = getProviderSettingsFromCookies(request.headers.get('Cookie'));
+    const enhancer = getModelRouting(request.headers.get('Cookie'), modelRouting).enhancer || DEFAULT_MODEL_ROUTING.enhancer!;
 
-                    For invalid or unclear prompts:
-                    - Respond with clear, professional guidance
-                    - Keep responses concise and actionable
-                    - Maintain a helpful, constructive tone
-                    - Focus on what the user should provide
-                    - Use a standard template for consistency
+    const result = streamText({
+      model: getProvider(enhancer.provider).createModelInstance({
+        model: enhancer.model,
+        serverEnv: process.env,
+        apiKeys,
+        providerSettings,
+      }),
+      temperature: 0.1,
+      system: 'You are a senior software principal architect, you should help the user analyse the user query and enrich it with the necessary context and constraints to make it more specific, actionable, and effective. You should also ensure that the prompt is self-contained and uses professional language. Your response should ONLY contain the enhanced prompt text. Do not include any explanations, metadata, or wrapper tags.',
+      messages: [
+        {
+          role: 'user',
+          content: `You are a professional prompt engineer specializing in crafting precise, effective prompts.
+            Your task is to enhance prompts by making them more specific, actionable, and effective.
 
-                    IMPORTANT: Your response must ONLY contain the enhanced prompt text.
-                    Do not include any explanations, metadata, or wrapper tags.
+            I want you to improve the user prompt that is wrapped in \`<original_prompt>\` tags.
 
-                    <original_prompt>
-                      ${message}
-                    </original_prompt>`
-                }
-              ],
-              stream: true
-            }),
-          });
+            For valid prompts:
+            - Make instructions explicit and unambiguous
+            - Add relevant context and constraints
+            - Remove redundant information
+            - Maintain the core intent
+            - Ensure the prompt is self-contained
+            - Use professional language
 
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`OpenRouter API error: ${response.status} ${errorText}`);
-          }
+            For invalid or unclear prompts:
+            - Respond with clear, professional guidance
+            - Keep responses concise and actionable
+            - Maintain a helpful, constructive tone
+            - Focus on what the user should provide
+            - Use a standard template for consistency
 
-          const reader = response.body?.getReader();
-          if (!reader) {
-            throw new Error('Failed to get reader from response');
-          }
+            IMPORTANT: Your response must ONLY contain the enhanced prompt text.
+            Do not include any explanations, metadata, or wrapper tags.
 
-          const decoder = new TextDecoder();
-          while (true) {
-            const { done, value } = await reader.read();
-            
-            if (done) {
-              break;
-            }
-            
-            const chunk = decoder.decode(value, { stream: true });
-            controller.enqueue(new TextEncoder().encode(chunk));
-          }
-        } catch (error) {
-          console.error('Error in enhancer stream:', error);
-          controller.error(error);
-        } finally {
-          controller.close();
+            <original_prompt>
+              ${message}
+            </original_prompt>`
         }
-      }
+      ],
+      onFinish: ({ usage }) => {
+        recordTokenUsage(rateLimitKey, usage.totalTokens || 0);
+      },
+      onError: ({ error }) => {
+        console.error('Error in enhancer stream:', error);
+      },
     });
 
-    return new Response(stream, {
+    // Plain text chunks, so the client does not depend on the provider's wire format
+    return result.toTextStreamResponse({
       headers: {
-        'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
       },
     });
   } catch (error) {
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_PROVIDER, PROVIDER_LIST, getAvailableModels } from '@/lib/provider';
+import { getProviderSettingsFromCookies } from '@/lib/server/serverUtils';
+import type { ModelInfo, ProviderDescription } from '@/types/index';
+
+// The model catalog depends on the environment and remote APIs, never prerender it
+export const dynamic = 'force-dynamic';
+
+const MODELS_CACHE_TTL = 10 * 60 * 1000;
+
+interface ModelsResponse {
+  models: ModelInfo[];
+  providers: ProviderDescription[];
+  offline: boolean;
+}
+
+let cachedResponse: { value: ModelsResponse; expiresAt: number } | undefined;
+
+export async function GET(request: NextRequest) {
+  const { apiKeys, providerSettings } = getProviderSettingsFromCookies(request.headers.get('Cookie'));
+
+  // Lists fetched with a user's own credentials are not shared with other users
+  const hasUserSettings = Object.keys(apiKeys).length > 0 || Object.keys(providerSettings).length > 0;
+
+  if (!hasUserSettings && cachedResponse && cachedResponse.expiresAt > Date.now()) {
+    return NextResponse.json(cachedResponse.value);
+  }
+
+  try {
+    const results = await Promise.all(
+      PROVIDER_LIST.map((provider) =>
+        getAvailableModels({ provider, apiKeys, providerSettings, serverEnv: process.env as Record<string, string> }),
+      ),
+    );
+    const { offline } = results[PROVIDER_LIST.indexOf(DEFAULT_PROVIDER)];
+
+    const value: ModelsResponse = {
+      models: results.flatMap((result) => result.models),
+      providers: PROVIDER_LIST.map((provider) => ({
+        name: provider.name,
+        apiKeyLink: provider.getApiKeyLink,
+        hasBaseUrl: Boolean(provider.config.baseUrlKey),
+      })),
+      offline,
+    };
+
+    // Keep retrying the remote catalogs while we are serving the fixture
+    if (!offline && !hasUserSettings) {
+      cachedResponse = { value, expiresAt: Date.now() + MODELS_CACHE_TTL };
+    }
+
+    return NextResponse.json(value);
+  } catch (error) {
+    console.error('Error in models API:', error);
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrace, getTraceAccessError } from '@/lib/server/tracing';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { traceId: string };
+}
+
+// A single trace with its spans
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const accessError = getTraceAccessError(request);
+
+  if (accessError) {
+    return accessError;
+  }
+
+  const trace = getTrace(params.traceId);
+
+  if (!trace) {
+    return NextResponse.json({ error: 'Trace not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ trace });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearTraces, getTraceAccessError, listTraces } from '@/lib/server/tracing';
+
+export const dynamic = 'force-dynamic';
+
+// Lists the traces of recent chat requests, newest first
+export async function GET(request: NextRequest) {
+  const accessError = getTraceAccessError(request);
+
+  if (accessError) {
+    return accessError;
+  }
+
+  return NextResponse.json({ traces: listTraces() });
+}
+
+export async function DELETE(request: NextRequest) {
+  const accessError = getTraceAccessError(request);
+
+  if (accessError) {
+    return accessError;
+  }
+
+  clearTraces();
+
+  return new Response(null, { status: 204 });
+}
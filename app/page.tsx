@@ -5,23 +5,37 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { STARTER_TEMPLATES, DEFAULT_TEMPLATE } from '@/lib/constants';
 import { Icons } from '@/components/ui/icons';
-import { Sparkles, Paperclip, ArrowUp, Plus, Search, MessageSquare } from 'lucide-react';
+import { Sparkles, Paperclip, ArrowUp, Plus, Search, MessageSquare, Settings } from 'lucide-react';
 import { usePromptEnhancer } from '@/hooks/usePromptEnhancer';
+import { useImageAttachments } from '@/hooks/useImageAttachments';
+import { ImageThumbnails } from '@/components/chat/ImageThumbnails';
+import { ACCEPTED_IMAGE_TYPES } from '@/lib/image-attachments';
+import { pendingImagesStore } from '@/stores/attachments';
+import { cn } from '@/lib/utils';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { ModelPicker } from '@/components/ModelPicker';
+import { ProviderSettingsDialog } from '@/components/ProviderSettingsDialog';
 
 export default function HomePage() {
   const router = useRouter();
   const [prompt, setPrompt] = useState('');
-  const { enhancePrompt, enhancingPrompt } = usePromptEnhancer();
+  const { enhancePrompt, enhancingPrompt, retryIn: enhanceRetryIn } = usePromptEnhancer();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const { attachments, attachmentError, isDragging, addFiles, removeAttachment, handlePaste, dropHandlers } =
+    useImageAttachments();
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
     
     if (prompt.trim()) {
+      // The project page sends these along with the prompt
+      pendingImagesStore.set(attachments);
+
       // Use the default template when user submits a prompt
       router.push(`/${DEFAULT_TEMPLATE.name}?prompt=${encodeURIComponent(prompt)}`);
     }
@@ -69,13 +83,21 @@ export default function HomePage() {
         {/* Main prompt area */}
         <div className="w-full">
           <form onSubmit={handleSubmit}>
-            <div className="border border-[#313133] rounded-xl bg-[#161618] overflow-hidden shadow-sm">
+            <div
+              className={cn(
+                "border border-[#313133] rounded-xl bg-[#161618] overflow-hidden shadow-sm transition-colors",
+                isDragging && "border-[#969798]"
+              )}
+              {...dropHandlers}
+            >
               <div className="p-3 relative">
+                <ImageThumbnails images={attachments} onRemove={removeAttachment} className="mb-3" />
                 <Textarea 
                   ref={textareaRef}
                   placeholder="An app that helps me plan my day"
                   value={prompt}
                   onChange={(e) => setPrompt(e.target.value)}
+                  onPaste={handlePaste}
                   className="min-h-[56px] max-h-[250px] resize-none border-0 p-0 bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0 placeholder:text-gray-500 text-sm pr-12 overflow-y-auto"
                   translate="no"
                   style={{ 
@@ -99,24 +121,54 @@ export default function HomePage() {
                   <button
                     type="button"
                     className="text-gray-400 hover:text-gray-300 transition-colors"
-                    aria-label="Upload files"
+                    aria-label="Attach images"
+                    onClick={() => fileInputRef.current?.click()}
                   >
                     <Paperclip className="w-4 h-4" />
                   </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                    multiple
+                    hidden
+                    onChange={(e) => {
+                      if (e.target.files?.length) {
+                        addFiles(e.target.files);
+                      }
+
+                      // Lets the same file be picked again after it was removed
+                      e.target.value = '';
+                    }}
+                  />
                   <button
                     type="button"
                     className="text-gray-400 hover:text-gray-300 transition-colors cursor-pointer"
-                    onClick={() => enhancePrompt(prompt, setPrompt, 'gpt-4o', { name: 'OpenAI', apiKey: process.env.OPENAI_API_KEY })}
-                    disabled={enhancingPrompt || prompt.length === 0}
+                    onClick={() => enhancePrompt(prompt, setPrompt)}
+                    disabled={enhancingPrompt || prompt.length === 0 || enhanceRetryIn > 0}
+                    title={enhanceRetryIn > 0 ? `Rate limited, try again in ${enhanceRetryIn}s` : 'Enhance prompt'}
                   >
                     <Icons.sparkles className={`w-4 h-4 ${enhancingPrompt ? 'animate-pulse' : ''}`} />
                   </button>
+                  {/* Prompts always open the default template, so store the choice for that project */}
+                  <ModelPicker projectId={DEFAULT_TEMPLATE.name} className="text-gray-400 hover:text-gray-300" />
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-gray-300 transition-colors"
+                    aria-label="Provider settings"
+                    onClick={() => setSettingsOpen(true)}
+                  >
+                    <Settings className="w-4 h-4" />
+                  </button>
                 </div>
               </div>
             </div>
+            {attachmentError && <p className="text-xs text-red-400 mt-2">{attachmentError}</p>}
           </form>
         </div>
 
+        <ProviderSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+
         {/* Example Prompts */}
         <div className="space-y-3">
           <div className="text-sm text-gray-400">Try building</div>
@@ -0,0 +1,181 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TraceDetail, formatDuration } from '@/components/traces/TraceDetail';
+import { cn } from '@/lib/utils';
+import type { ChatTrace, ChatTraceSummary } from '@/types/index';
+
+const STATUS_COLORS: Record<ChatTraceSummary['status'], string> = {
+  running: 'text-sky-400',
+  ok: 'text-emerald-400',
+  error: 'text-red-400',
+  aborted: 'text-[#969798]',
+};
+
+// The TRACES_TOKEN entered by the user, kept for the browser session
+const TOKEN_STORAGE_KEY = 'tracesToken';
+
+const authHeaders = (): HeadersInit => ({
+  Authorization: `Bearer ${sessionStorage.getItem(TOKEN_STORAGE_KEY) || ''}`,
+});
+
+// Local viewer for the traces recorded by /api/chat, to debug file selection and slow generations
+export default function TracesPage() {
+  const [traces, setTraces] = useState<ChatTraceSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedTrace, setSelectedTrace] = useState<ChatTrace | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [needsToken, setNeedsToken] = useState(false);
+  const [tokenInput, setTokenInput] = useState('');
+
+  const loadTraces = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/traces', { headers: authHeaders() });
+      const body = await response.json();
+
+      setNeedsToken(response.status === 401);
+
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP error! Status: ${response.status}`);
+      }
+
+      setTraces(body.traces);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const clearAll = async () => {
+    await fetch('/api/traces', { method: 'DELETE', headers: authHeaders() });
+    setSelectedId(null);
+    loadTraces();
+  };
+
+  useEffect(() => {
+    loadTraces();
+  }, [loadTraces]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSelectedTrace(null);
+      return;
+    }
+
+    fetch(`/api/traces/${selectedId}`, { headers: authHeaders() })
+      .then((response) => (response.ok ? response.json() : { trace: null }))
+      .then((body) => setSelectedTrace(body.trace))
+      .catch((err) => console.error('Error loading trace:', err));
+  }, [selectedId, traces]);
+
+  const submitToken = (event: React.FormEvent) => {
+    event.preventDefault();
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput.trim());
+    setTokenInput('');
+    loadTraces();
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-[#101012] text-[#f3f6f6]">
+      <header className="flex items-center justify-between px-4 py-3 border-b border-[#313133]">
+        <span className="text-sm font-medium">Request traces</span>
+        <div className="flex items-center gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={loadTraces}
+            title="Refresh"
+            className="h-8 w-8 text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122]"
+          >
+            <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={clearAll}
+            disabled={traces.length === 0}
+            title="Clear traces"
+            className="h-8 w-8 text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122]"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </header>
+
+      {error ? (
+        <div className="flex flex-col gap-3 p-4 text-sm text-[#969798]">
+          <span>{error}</span>
+          {needsToken && (
+            <form onSubmit={submitToken} className="flex items-center gap-2 max-w-sm">
+              <Input
+                type="password"
+                placeholder="Traces token"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+                className="h-8 border-[#313133] bg-[#101012]"
+              />
+              <Button type="submit" size="sm" className="h-8 bg-[#f3f6f6] text-[#161618] hover:bg-[#e3e6e6]">
+                Open
+              </Button>
+            </form>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-1 min-h-0">
+          <ScrollArea className="w-[420px] border-r border-[#313133]">
+            {loading && traces.length === 0 && (
+              <div className="flex justify-center p-4">
+                <Loader2 className="h-4 w-4 animate-spin text-[#969798]" />
+              </div>
+            )}
+            {!loading && traces.length === 0 && (
+              <div className="p-4 text-xs text-[#969798]">No requests traced yet</div>
+            )}
+            {traces.map((trace) => (
+              <button
+                key={trace.id}
+                type="button"
+                onClick={() => setSelectedId(trace.id)}
+                className={cn(
+                  'flex flex-col gap-0.5 w-full px-4 py-2 text-left border-b border-[#212122] hover:bg-[#161618]',
+                  selectedId === trace.id && 'bg-[#161618]',
+                )}
+              >
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate">{trace.model}</span>
+                  <span className={STATUS_COLORS[trace.status]}>{trace.status}</span>
+                </div>
+                <div className="flex items-center justify-between gap-2 text-[11px] text-[#969798]">
+                  <span>{new Date(trace.startedAt).toLocaleTimeString()}</span>
+                  <span>
+                    {formatDuration(trace.durationMs)} · {trace.usage.totalTokens.toLocaleString()} tokens ·{' '}
+                    {trace.spanCount} spans
+                  </span>
+                </div>
+              </button>
+            ))}
+          </ScrollArea>
+
+          <ScrollArea className="flex-1">
+            <div className="p-4">
+              {selectedTrace ? (
+                <TraceDetail trace={selectedTrace} />
+              ) : (
+                <span className="text-xs text-[#969798]">Select a request to see its spans</span>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,23 +9,42 @@ import {
   Check, 
   ArrowUp,
   Paperclip,
-  ChevronDown
+  ChevronDown,
+  Settings,
+  Square
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { usePromptEnhancer } from '@/hooks/usePromptEnhancer';
+import { useImageAttachments } from '@/hooks/useImageAttachments';
 import { cn } from '@/lib/utils';
 import { motion, AnimatePresence } from 'framer-motion';
 import { UserMessage } from '@/components/chat/UserMessage';
 import { AssistantMessage, ProgressType, ProgressStatus } from '@/components/chat/AssistantMessage';
 import { LoadingProgressPanel } from '@/components/chat/LoadingProgressPanel';
 import { ErrorMessage } from '@/components/chat/ErrorMessage';
+import { InterruptedFileNotice } from '@/components/chat/InterruptedFileNotice';
+import { ImageThumbnails } from '@/components/chat/ImageThumbnails';
+import { ModelPicker } from '@/components/ModelPicker';
+import { ProviderSettingsDialog } from '@/components/ProviderSettingsDialog';
+import { ProjectCost } from '@/components/ProjectCost';
+import { PromptSelector } from '@/components/PromptSelector';
+import { ACCEPTED_IMAGE_TYPES } from '@/lib/image-attachments';
+import type { ChatError, ContextAnnotation, ImageAttachment, UsageInfo } from '@/types/index';
 import { Icons } from './ui/icons';
 
 interface ChatMessage {
+  id: string;
   role: 'user' | 'assistant';
   content: string;
+  images?: ImageAttachment[];
+  usage?: UsageInfo;
+  stopped?: boolean;
+  reasoning?: string;
+  reasoningStartedAt?: number;
+  reasoningMs?: number;
+  annotations?: ContextAnnotation[];
 }
 
 interface ProgressIndicator {
@@ -36,11 +55,13 @@ interface ProgressIndicator {
 }
 
 interface ChatPanelProps {
+  projectId: string;
   messages: ChatMessage[];
   input: string;
   setInput: (input: string) => void;
-  sendMessageToAI: (message: string) => void;
-  openRouterError: string | null;
+  sendMessageToAI: (message: string, options?: { images?: ImageAttachment[] }) => boolean;
+  chatError: ChatError | null;
+  onRetry?: (options?: { forceSummary?: boolean }) => void;
   isProcessing?: boolean;
   streamingComplete?: boolean;
   activeFile?: string | null;
@@ -51,14 +72,22 @@ interface ChatPanelProps {
   isInstallingDeps?: boolean;
   isStartingDevServer?: boolean;
   progress?: ProgressIndicator[];
+  onStop?: () => void;
+  // A file left half written by a stopped generation
+  interruptedFile?: string | null;
+  onResolveInterruptedFile?: (action: 'keep' | 'revert') => void;
+  // Images of a prompt sent for the user that was refused, added back to the attachments
+  unsentImages?: ImageAttachment[];
 }
 
 export const ChatPanel = ({
+  projectId,
   messages,
   input,
   setInput,
   sendMessageToAI,
-  openRouterError,
+  chatError,
+  onRetry,
   isProcessing = false,
   streamingComplete = true,
   activeFile,
@@ -68,13 +97,36 @@ export const ChatPanel = ({
   isLoadingGitHubFiles = false,
   isInstallingDeps = false,
   isStartingDevServer = false,
-  progress = []
+  progress = [],
+  onStop,
+  interruptedFile,
+  onResolveInterruptedFile,
+  unsentImages
 }: ChatPanelProps) => {
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const { enhancingPrompt, enhancePrompt } = usePromptEnhancer();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    attachments,
+    attachmentError,
+    isDragging,
+    addFiles,
+    removeAttachment,
+    restoreAttachments,
+    clearAttachments,
+    handlePaste,
+    dropHandlers,
+  } = useImageAttachments();
+
+  useEffect(() => {
+    if (unsentImages?.length) {
+      restoreAttachments(unsentImages);
+    }
+  }, [unsentImages, restoreAttachments]);
+  const { enhancingPrompt, enhancePrompt, retryIn: enhanceRetryIn } = usePromptEnhancer();
   const [isScrolledToBottom, setIsScrolledToBottom] = useState(true);
   const [projectHasBeenLoaded, setProjectHasBeenLoaded] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
   
   const hasLoadingStarted = isLoadingGitHubFiles || isInstallingDeps || isStartingDevServer || projectHasBeenLoaded;
   
@@ -140,8 +192,12 @@ export const ChatPanel = ({
     if (!input.trim() || isProcessing) return;
     
     const message = input.trim();
-    sendMessageToAI(message);
+
+    // A refused message stays in the input so it isn't lost
+    if (!sendMessageToAI(message, { images: attachments })) return;
+
     setInput(''); // Clear input after sending
+    clearAttachments();
   };
 
   return (
@@ -162,12 +218,13 @@ export const ChatPanel = ({
                 {messages.map((message, index) => (
                   message.role === 'user' ? (
                     <UserMessage 
-                      key={`user-${index}`} 
+                      key={message.id} 
                       content={message.content} 
+                      images={message.images}
                     />
                   ) : (
                     <AssistantMessage 
-                      key={`assistant-${index}`} 
+                      key={message.id} 
                       content={message.content} 
                       isStreaming={!streamingComplete && index === messages.length - 1} 
                       activeFile={index === messages.length - 1 ? activeFile : undefined}
@@ -175,12 +232,27 @@ export const ChatPanel = ({
                       activeCommand={index === messages.length - 1 ? activeCommand : undefined}
                       completedCommands={index === messages.length - 1 ? completedCommands : undefined}
                       progress={index === messages.length - 1 ? progress : undefined}
+                      usage={message.usage}
+                      stopped={message.stopped}
+                      reasoning={message.reasoning}
+                      reasoningStartedAt={message.reasoningStartedAt}
+                      reasoningMs={message.reasoningMs}
+                      notice={message.annotations?.find((annotation) => annotation.type === 'promptFallback')?.message}
                     />
                   )
                 ))}
                 
-                {openRouterError && (
-                  <ErrorMessage error={openRouterError} />
+                {chatError && (
+                  <ErrorMessage
+                    error={chatError}
+                    onRetry={onRetry && (() => onRetry())}
+                    onOpenSettings={() => setSettingsOpen(true)}
+                    onSummarizeAndRetry={onRetry && (() => onRetry({ forceSummary: true }))}
+                  />
+                )}
+
+                {interruptedFile && onResolveInterruptedFile && (
+                  <InterruptedFileNotice path={interruptedFile} onResolve={onResolveInterruptedFile} />
                 )}
                 
               </div>
@@ -213,7 +285,14 @@ export const ChatPanel = ({
       </div>
 
       <div className="p-3">
-        <div className="relative rounded-lg border border-[#313133] bg-[#161618] overflow-hidden shadow-md">
+        <div
+          className={cn(
+            "relative rounded-lg border border-[#313133] bg-[#161618] overflow-hidden shadow-md transition-colors",
+            isDragging && "border-[#969798]"
+          )}
+          {...dropHandlers}
+        >
+          <ImageThumbnails images={attachments} onRemove={removeAttachment} className="px-3 pt-3" />
           <Textarea
             ref={textareaRef}
             value={input}
@@ -223,6 +302,7 @@ export const ChatPanel = ({
               "flex-1 border-0 bg-[#161618] text-[#f3f6f6] placeholder:text-[#969798] resize-none text-sm p-3 pr-12 pb-12 min-h-[80px] max-h-[30vh] overflow-y-auto focus-visible:ring-0 focus-visible:ring-offset-0 focus:outline-none focus-visible:outline-none transition-all duration-200",
             )}
             rows={1}
+            onPaste={handlePaste}
             onKeyDown={(e) => {
               if (e.key === 'Enter' && !e.shiftKey) {
                 e.preventDefault();
@@ -237,10 +317,39 @@ export const ChatPanel = ({
               <Button
                 size="icon"
                 variant="ghost"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isProcessing}
                 className="h-8 w-8 text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122]"
+                title="Attach images"
               >
                 <Paperclip className="h-4 w-4" />
               </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                multiple
+                hidden
+                onChange={(e) => {
+                  if (e.target.files?.length) {
+                    addFiles(e.target.files);
+                  }
+
+                  // Lets the same file be picked again after it was removed
+                  e.target.value = '';
+                }}
+              />
+              <ModelPicker projectId={projectId} />
+              <PromptSelector projectId={projectId} />
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => setSettingsOpen(true)}
+                className="h-8 w-8 text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122]"
+                title="Provider settings"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
               <AnimatePresence>
                 {input.length > 0 && (
                   <motion.div
@@ -250,9 +359,11 @@ export const ChatPanel = ({
                     transition={{ duration: 0.2 }}
                   >
                     <Button
-                      onClick={() => enhancePrompt(input, setInput, 'gpt-4o', { name: 'OpenAI', apiKey: process.env.OPENAI_API_KEY })}
+                      onClick={() => enhancePrompt(input, setInput)}
                       size="icon"
                       variant="ghost"
+                      disabled={enhanceRetryIn > 0}
+                      title={enhanceRetryIn > 0 ? `Rate limited, try again in ${enhanceRetryIn}s` : 'Enhance prompt'}
                       className="h-8 w-8 text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122]"
                     >
                       <Icons.sparkles className={cn(
@@ -266,27 +377,43 @@ export const ChatPanel = ({
             </div>
             
             <div className="flex items-center gap-2 ml-auto">
-              <Button
-                size="icon"
-                onClick={handleSendMessage}
-                className={cn(
-                  "h-8 w-8 rounded-full transition-colors duration-200",
-                  input.trim() && !isProcessing 
-                    ? "bg-[#f3f6f6] text-[#161618] hover:bg-[#e3e6e6]" 
-                    : "bg-[#212122] text-[#969798]"
-                )}
-                disabled={isProcessing || !input.trim() || (messages.length > 0 && messages[messages.length-1].content === '...')}
-              >
-                {isProcessing ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  <ArrowUp className="w-4 h-4" />
-                )}
-              </Button>
+              <ProjectCost projectId={projectId} />
+              {isProcessing && onStop ? (
+                <Button
+                  size="icon"
+                  onClick={onStop}
+                  className="h-8 w-8 rounded-full bg-[#f3f6f6] text-[#161618] hover:bg-[#e3e6e6] transition-colors duration-200"
+                  title="Stop generating"
+                >
+                  <Square className="w-3 h-3 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  size="icon"
+                  onClick={handleSendMessage}
+                  className={cn(
+                    "h-8 w-8 rounded-full transition-colors duration-200",
+                    input.trim() && !isProcessing 
+                      ? "bg-[#f3f6f6] text-[#161618] hover:bg-[#e3e6e6]" 
+                      : "bg-[#212122] text-[#969798]"
+                  )}
+                  disabled={isProcessing || !input.trim() || (messages.length > 0 && messages[messages.length-1].content === '...')}
+                >
+                  {isProcessing ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <ArrowUp className="w-4 h-4" />
+                  )}
+                </Button>
+              )}
             </div>
           </div>
         </div>
         
+        {attachmentError && (
+          <p className="text-xs text-red-400 mt-2 text-center">{attachmentError}</p>
+        )}
+
         <motion.p 
           className="text-xs text-[#969798] mt-2 flex items-center gap-1.5 justify-center"
           initial={{ opacity: 0 }}
@@ -297,6 +424,8 @@ export const ChatPanel = ({
           Assistant can make mistakes
         </motion.p>
       </div>
+
+      <ProviderSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { CustomPrompt } from '@/lib/prompt-library';
+import { customPromptsStore, removeCustomPrompt, saveCustomPrompt } from '@/stores/prompts';
+
+interface CustomPromptsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_DRAFT: Omit<CustomPrompt, 'id'> & { id?: string } = { label: '', description: '', content: '' };
+
+export const CustomPromptsDialog = ({ open, onOpenChange }: CustomPromptsDialogProps) => {
+  const customPrompts = useStore(customPromptsStore);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  const canSave = draft.label.trim() !== '' && draft.content.trim() !== '';
+
+  const handleSave = () => {
+    saveCustomPrompt({ ...draft, label: draft.label.trim(), description: draft.description?.trim() || undefined });
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleDelete = (id: string) => {
+    removeCustomPrompt(id);
+
+    if (draft.id === id) {
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setDraft(EMPTY_DRAFT);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="bg-[#161618] border-[#313133] text-[#f3f6f6] max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Custom prompts</DialogTitle>
+          <DialogDescription className="text-[#969798]">
+            Prompts are stored in this browser only. Use {'{{cwd}}'}, {'{{allowedHtmlElements}}'} and{' '}
+            {'{{modificationTagName}}'} to insert the same values the built-in prompts use.
+          </DialogDescription>
+        </DialogHeader>
+
+        {customPrompts.length > 0 && (
+          <ScrollArea className="max-h-40">
+            <div className="flex flex-col gap-1">
+              {customPrompts.map((prompt) => (
+                <div
+                  key={prompt.id}
+                  className="flex items-center justify-between gap-2 rounded-md px-2 py-1.5 hover:bg-[#212122]"
+                >
+                  <span className="text-sm truncate">{prompt.label}</span>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDraft(prompt)}
+                      className="h-7 w-7 text-[#969798] hover:text-[#f3f6f6] hover:bg-[#313133]"
+                      title="Edit"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleDelete(prompt.id)}
+                      className="h-7 w-7 text-[#969798] hover:text-red-400 hover:bg-[#313133]"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <Input
+            placeholder="Name"
+            value={draft.label}
+            onChange={(e) => setDraft((prev) => ({ ...prev, label: e.target.value }))}
+            className="border-[#313133] bg-[#101012]"
+          />
+          <Input
+            placeholder="Description (optional)"
+            value={draft.description || ''}
+            onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+            className="border-[#313133] bg-[#101012]"
+          />
+          <Textarea
+            placeholder="System prompt"
+            value={draft.content}
+            onChange={(e) => setDraft((prev) => ({ ...prev, content: e.target.value }))}
+            className="min-h-[200px] border-[#313133] bg-[#101012] font-mono text-xs"
+          />
+        </div>
+
+        <DialogFooter>
+          {draft.id && (
+            <Button variant="ghost" onClick={() => setDraft(EMPTY_DRAFT)} className="hover:bg-[#212122]">
+              <Plus className="h-4 w-4 mr-1" />
+              New prompt
+            </Button>
+          )}
+          <Button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="bg-[#f3f6f6] text-[#161618] hover:bg-[#e3e6e6]"
+          >
+            {draft.id ? 'Update prompt' : 'Add prompt'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,143 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, Check, Search } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useModels, useModelSelection } from '@/hooks/useModels';
+import { DEFAULT_MODEL } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import type { ModelSelection } from '@/stores/model';
+import type { ModelInfo } from '@/types/index';
+
+interface ModelPickerProps {
+  projectId: string;
+  className?: string;
+}
+
+interface ModelSelectProps {
+  value?: ModelSelection;
+  onChange: (selection: ModelSelection) => void;
+  // Shown when nothing is selected
+  placeholder: string;
+  className?: string;
+}
+
+// Render at most this many matches so huge catalogs stay responsive
+const MAX_VISIBLE_MODELS = 100;
+
+const formatPrice = (pricing?: ModelInfo['pricing']) => {
+  if (!pricing) return null;
+
+  const perMillion = (value: number) => `$${(value * 1_000_000).toFixed(2)}`;
+
+  return `${perMillion(pricing.prompt)} in · ${perMillion(pricing.completion)} out /M`;
+};
+
+const formatContext = (contextLength?: number) => {
+  if (!contextLength) return null;
+
+  return `${Math.floor(contextLength / 1000)}k ctx`;
+};
+
+export const ModelPicker = ({ projectId, className }: ModelPickerProps) => {
+  const { selection, setSelection } = useModelSelection(projectId);
+
+  return <ModelSelect value={selection} onChange={setSelection} placeholder={DEFAULT_MODEL} className={className} />;
+};
+
+export const ModelSelect = ({ value: selection, onChange: setSelection, placeholder, className }: ModelSelectProps) => {
+  const { models, isLoading, offline } = useModels();
+  const [search, setSearch] = useState('');
+
+  const selectedName = selection?.model || placeholder;
+  const selectedModel = models.find(
+    (m) => m.name === selectedName && (!selection || m.provider === selection.provider),
+  );
+
+  const filteredModels = useMemo(() => {
+    const query = search.trim().toLowerCase();
+
+    if (!query) return models;
+
+    return models.filter(
+      (m) =>
+        m.name.toLowerCase().includes(query) ||
+        m.label.toLowerCase().includes(query) ||
+        m.provider.toLowerCase().includes(query),
+    );
+  }, [models, search]);
+
+  return (
+    <DropdownMenu onOpenChange={(open) => !open && setSearch('')}>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'flex items-center gap-1 h-8 px-2 rounded-md text-xs text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122] transition-colors max-w-[12rem]',
+            className,
+          )}
+          title={selectedName}
+        >
+          <span className="truncate">{selectedModel?.label || selectedName}</span>
+          <ChevronDown className="w-3 h-3 flex-shrink-0" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="start"
+        className="w-80 p-0 bg-[#161618] border-[#313133] text-[#f3f6f6]"
+      >
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-[#313133]">
+          <Search className="w-3.5 h-3.5 text-[#969798]" />
+          <input
+            autoFocus
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            // Keep the menu's typeahead from stealing keystrokes
+            onKeyDown={(e) => e.stopPropagation()}
+            placeholder="Search models"
+            className="flex-1 bg-transparent text-sm placeholder:text-[#969798] focus:outline-none"
+          />
+        </div>
+        <ScrollArea className="h-72">
+          <div className="p-1">
+            {isLoading && <div className="px-2 py-1.5 text-xs text-[#969798]">Loading models...</div>}
+            {!isLoading && filteredModels.length === 0 && (
+              <div className="px-2 py-1.5 text-xs text-[#969798]">No models found</div>
+            )}
+            {filteredModels.slice(0, MAX_VISIBLE_MODELS).map((model) => {
+              const isSelected = model.name === selectedName && (!selection || model.provider === selection.provider);
+              const details = [model.provider, formatContext(model.contextLength), formatPrice(model.pricing)]
+                .filter(Boolean)
+                .join(' · ');
+
+              return (
+                <DropdownMenuItem
+                  key={`${model.provider}:${model.name}`}
+                  onSelect={() => setSelection({ model: model.name, provider: model.provider })}
+                  className="flex items-start gap-2 cursor-pointer focus:bg-[#212122] focus:text-[#f3f6f6]"
+                >
+                  <Check className={cn('w-3.5 h-3.5 mt-0.5', isSelected ? 'opacity-100' : 'opacity-0')} />
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-sm truncate">{model.label}</span>
+                    <span className="text-[11px] text-[#969798] truncate">{details}</span>
+                  </div>
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        </ScrollArea>
+        {offline && (
+          <div className="px-3 py-1.5 border-t border-[#313133] text-[11px] text-[#969798]">
+            Offline: showing cached model list
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { Wallet } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useProjectUsage } from '@/hooks/useProjectUsage';
+import { cn, formatCost } from '@/lib/utils';
+
+interface ProjectCostProps {
+  projectId: string;
+  className?: string;
+}
+
+export const ProjectCost = ({ projectId, className }: ProjectCostProps) => {
+  const { totalCost, budget, hasUnpricedUsage, budgetExceeded, setBudget, resetCost } = useProjectUsage(projectId);
+  // Unpriced usage is not in the total, which is then a lower bound
+  const formattedTotal = `${formatCost(totalCost)}${hasUnpricedUsage ? '+' : ''}`;
+  const [budgetInput, setBudgetInput] = useState('');
+
+  const handleSaveBudget = () => {
+    const value = parseFloat(budgetInput);
+
+    // An empty or invalid amount removes the cap
+    setBudget(Number.isFinite(value) && value > 0 ? value : undefined);
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && setBudgetInput(budget !== undefined ? String(budget) : '')}>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'flex items-center gap-1 h-8 px-2 rounded-md text-xs text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122] transition-colors',
+            budgetExceeded && 'text-red-400 hover:text-red-300',
+            className,
+          )}
+          title="Project cost"
+        >
+          <Wallet className="w-3.5 h-3.5" />
+          <span>
+            {formattedTotal}
+            {budget !== undefined && ` / ${formatCost(budget)}`}
+          </span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64 p-3 bg-[#161618] border-[#313133] text-[#f3f6f6]">
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-[#969798]">Spent in this project</span>
+            <span>{formattedTotal}</span>
+          </div>
+          {hasUnpricedUsage && (
+            <span className="text-xs text-[#969798]">Some models used have no pricing and are not counted.</span>
+          )}
+          <div className="flex flex-col gap-1.5">
+            <span className="text-xs text-[#969798]">Budget cap (USD)</span>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                placeholder="No limit"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                // Keep the menu's typeahead from stealing keystrokes
+                onKeyDown={(e) => e.stopPropagation()}
+                className="h-8 border-[#313133] bg-[#101012]"
+              />
+              <Button size="sm" onClick={handleSaveBudget} className="h-8 bg-[#f3f6f6] text-[#161618] hover:bg-[#e3e6e6]">
+                Save
+              </Button>
+            </div>
+            {budgetExceeded && (
+              <span className="text-xs text-red-400">
+                {budget !== undefined && totalCost >= budget
+                  ? 'Budget reached, new requests are blocked.'
+                  : "Unpriced spending can't be checked against the cap, new requests are blocked."}
+              </span>
+            )}
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={resetCost}
+            className="h-8 text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122]"
+          >
+            Reset total
+          </Button>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
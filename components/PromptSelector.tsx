@@ -0,0 +1,71 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, ChevronDown, ScrollText } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CustomPromptsDialog } from '@/components/CustomPromptsDialog';
+import { usePromptSelection } from '@/hooks/usePrompts';
+import { cn } from '@/lib/utils';
+
+interface PromptSelectorProps {
+  projectId: string;
+  className?: string;
+}
+
+export const PromptSelector = ({ projectId, className }: PromptSelectorProps) => {
+  const { prompts, promptId, setPromptId } = usePromptSelection(projectId);
+  const [manageOpen, setManageOpen] = useState(false);
+
+  const selectedPrompt = prompts.find((p) => p.id === promptId);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className={cn(
+              'flex items-center gap-1 h-8 px-2 rounded-md text-xs text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122] transition-colors max-w-[8rem]',
+              className,
+            )}
+            title="System prompt"
+          >
+            <ScrollText className="w-3.5 h-3.5 flex-shrink-0" />
+            <span className="truncate">{selectedPrompt?.label}</span>
+            <ChevronDown className="w-3 h-3 flex-shrink-0" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72 p-1 bg-[#161618] border-[#313133] text-[#f3f6f6]">
+          {prompts.map((prompt) => (
+            <DropdownMenuItem
+              key={prompt.id}
+              onSelect={() => setPromptId(prompt.id)}
+              className="flex items-start gap-2 cursor-pointer focus:bg-[#212122] focus:text-[#f3f6f6]"
+            >
+              <Check className={cn('w-3.5 h-3.5 mt-0.5', prompt.id === promptId ? 'opacity-100' : 'opacity-0')} />
+              <div className="flex flex-col min-w-0">
+                <span className="text-sm truncate">{prompt.label}</span>
+                <span className="text-[11px] text-[#969798] truncate">{prompt.description}</span>
+              </div>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator className="bg-[#313133]" />
+          <DropdownMenuItem
+            onSelect={() => setManageOpen(true)}
+            className="text-xs text-[#969798] cursor-pointer focus:bg-[#212122] focus:text-[#f3f6f6]"
+          >
+            Manage custom prompts...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CustomPromptsDialog open={manageOpen} onOpenChange={setManageOpen} />
+    </>
+  );
+};
@@ -0,0 +1,239 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ExternalLink, RotateCcw } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ModelSelect } from '@/components/ModelPicker';
+import { useModels } from '@/hooks/useModels';
+import { DEFAULT_MODEL_ROUTING } from '@/lib/constants';
+import {
+  commandToolStore,
+  loadModelRouting,
+  loadProviderSettings,
+  modelRoutingStore,
+  providerSettingsStore,
+  saveModelRouting,
+  saveProviderSettings,
+  showReasoningStore,
+  toolCallingStore,
+} from '@/stores/settings';
+import { refreshModels } from '@/stores/model';
+import type { IProviderSetting, ModelRouting, PipelineStage } from '@/types/index';
+
+const ROUTING_STAGES: { stage: PipelineStage; label: string; fallback: string }[] = [
+  { stage: 'response', label: 'Response', fallback: 'Project model' },
+  { stage: 'continuation', label: 'Continuation', fallback: 'Response model' },
+  { stage: 'summary', label: 'Chat summary', fallback: DEFAULT_MODEL_ROUTING.summary?.model || 'Project model' },
+  { stage: 'context', label: 'Context selection', fallback: DEFAULT_MODEL_ROUTING.context?.model || 'Project model' },
+  { stage: 'enhancer', label: 'Prompt enhancer', fallback: DEFAULT_MODEL_ROUTING.enhancer?.model || 'Project model' },
+];
+
+interface ProviderSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ProviderSettingsDialog = ({ open, onOpenChange }: ProviderSettingsDialogProps) => {
+  const { providers } = useModels();
+  const [draft, setDraft] = useState<Record<string, IProviderSetting>>({});
+  const [routingDraft, setRoutingDraft] = useState<ModelRouting>({});
+  const [toolCallingDraft, setToolCallingDraft] = useState(false);
+  const [commandToolDraft, setCommandToolDraft] = useState(false);
+  const [showReasoningDraft, setShowReasoningDraft] = useState(true);
+
+  // Start every edit from what is currently stored in the cookies
+  useEffect(() => {
+    if (open) {
+      loadProviderSettings();
+      loadModelRouting();
+      setDraft(providerSettingsStore.get());
+      setRoutingDraft(modelRoutingStore.get());
+      setToolCallingDraft(toolCallingStore.get());
+      setCommandToolDraft(commandToolStore.get());
+      setShowReasoningDraft(showReasoningStore.get());
+    }
+  }, [open]);
+
+  const updateField = (provider: string, field: keyof IProviderSetting, value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      [provider]: { ...prev[provider], [field]: value },
+    }));
+  };
+
+  const resetStage = (stage: PipelineStage) => {
+    setRoutingDraft((prev) => {
+      const { [stage]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleSave = () => {
+    saveProviderSettings(draft);
+    saveModelRouting(routingDraft);
+    toolCallingStore.set(toolCallingDraft);
+    commandToolStore.set(commandToolDraft);
+    showReasoningStore.set(showReasoningDraft);
+    refreshModels();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#161618] border-[#313133] text-[#f3f6f6] max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Provider settings</DialogTitle>
+          <DialogDescription className="text-[#969798]">
+            Keys are stored in this browser only and take precedence over the server configuration.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="flex flex-col gap-5">
+            {providers.map((provider) => (
+              <div key={provider.name} className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{provider.name}</span>
+                  {provider.apiKeyLink && (
+                    <a
+                      href={provider.apiKeyLink}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-xs text-[#969798] hover:text-[#f3f6f6]"
+                    >
+                      Get a key
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </div>
+                <Input
+                  type="password"
+                  autoComplete="off"
+                  placeholder="API key"
+                  value={draft[provider.name]?.apiToken || ''}
+                  onChange={(e) => updateField(provider.name, 'apiToken', e.target.value)}
+                  className="border-[#313133] bg-[#101012]"
+                />
+                {provider.hasBaseUrl && (
+                  <>
+                    <Input
+                      placeholder="Base URL"
+                      value={draft[provider.name]?.baseUrl || ''}
+                      onChange={(e) => updateField(provider.name, 'baseUrl', e.target.value)}
+                      className="border-[#313133] bg-[#101012]"
+                    />
+                    <Input
+                      placeholder="Organization (optional)"
+                      value={draft[provider.name]?.organization || ''}
+                      onChange={(e) => updateField(provider.name, 'organization', e.target.value)}
+                      className="border-[#313133] bg-[#101012]"
+                    />
+                  </>
+                )}
+              </div>
+            ))}
+
+            <div className="flex flex-col gap-2 pt-4 border-t border-[#313133]">
+              <span className="text-sm font-medium">Model routing</span>
+              <span className="text-xs text-[#969798]">
+                Pick the model used by each step of a request. Unset steps use their default.
+              </span>
+              {ROUTING_STAGES.map(({ stage, label, fallback }) => (
+                <div key={stage} className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-[#969798]">{label}</span>
+                  <div className="flex items-center gap-1">
+                    <ModelSelect
+                      value={routingDraft[stage]}
+                      onChange={(selection) => setRoutingDraft((prev) => ({ ...prev, [stage]: selection }))}
+                      placeholder={fallback}
+                      className="border border-[#313133] bg-[#101012]"
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => resetStage(stage)}
+                      disabled={!routingDraft[stage]}
+                      className="h-8 w-8 text-[#969798] hover:text-[#f3f6f6] hover:bg-[#212122]"
+                      title="Use default"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-start gap-3 pt-4 border-t border-[#313133] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={toolCallingDraft}
+                onChange={(e) => setToolCallingDraft(e.target.checked)}
+                className="mt-0.5 h-4 w-4 accent-[#f3f6f6]"
+              />
+              <span className="flex flex-col gap-1">
+                <span className="text-sm font-medium">Tool calling</span>
+                <span className="text-xs text-[#969798]">
+                  Let the model read files and search the project in the browser while it answers. Needs a model
+                  that supports tools.
+                </span>
+              </span>
+            </label>
+
+            <label
+              className={`flex items-start gap-3 pl-7 ${toolCallingDraft ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}
+            >
+              <input
+                type="checkbox"
+                checked={commandToolDraft}
+                disabled={!toolCallingDraft}
+                onChange={(e) => setCommandToolDraft(e.target.checked)}
+                className="mt-0.5 h-4 w-4 accent-[#f3f6f6]"
+              />
+              <span className="flex flex-col gap-1">
+                <span className="text-sm font-medium">Allow commands</span>
+                <span className="text-xs text-[#969798]">
+                  Also let the model run any shell command it chooses in the project, without asking. Commands can
+                  change or delete files and install packages.
+                </span>
+              </span>
+            </label>
+
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showReasoningDraft}
+                onChange={(e) => setShowReasoningDraft(e.target.checked)}
+                className="mt-0.5 h-4 w-4 accent-[#f3f6f6]"
+              />
+              <span className="flex flex-col gap-1">
+                <span className="text-sm font-medium">Show reasoning</span>
+                <span className="text-xs text-[#969798]">
+                  Show what thinking models reason about before they answer, in a collapsible panel.
+                </span>
+              </span>
+            </label>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} className="hover:bg-[#212122]">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="bg-[#f3f6f6] text-[#161618] hover:bg-[#e3e6e6]">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,10 +2,15 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { MessageSquare, Brain, BookDashed, WrapText } from 'lucide-react';
+import { useStore } from '@nanostores/react';
+import { MessageSquare, Brain, BookDashed, WrapText, Wrench } from 'lucide-react';
 import { Markdown } from '@/components/Markdown';
+import { ReasoningPanel } from '@/components/chat/ReasoningPanel';
+import { showReasoningStore } from '@/stores/settings';
+import { formatCost } from '@/lib/utils';
+import type { UsageInfo } from '@/types/index';
 
-export type ProgressType = 'summary' | 'context' | 'response';
+export type ProgressType = 'summary' | 'context' | 'response' | 'continuation' | 'tool';
 export type ProgressStatus = 'in-progress' | 'complete';
 
 interface ProgressIndicator {
@@ -23,6 +28,15 @@ interface AssistantMessageProps {
   activeCommand?: string | null;
   completedCommands?: Set<string>;
   progress?: ProgressIndicator[];
+  usage?: UsageInfo;
+  // The user stopped the generation before it finished
+  stopped?: boolean;
+  // What a thinking model reasoned before answering, see ReasoningPanel
+  reasoning?: string;
+  reasoningStartedAt?: number;
+  reasoningMs?: number;
+  // Something the user should know about how the answer was produced, e.g. their prompt was not used
+  notice?: string;
 }
 
 // Helper function to process content with bolt artifacts
@@ -58,16 +72,18 @@ const processContent = (content: string): { beforeBolt: string; afterBolt: strin
 
 const AiStreamState = ({ isStreaming, progress }: { isStreaming: boolean; progress?: ProgressIndicator[] }) => {
   const [isTransitioning, setIsTransitioning] = useState(false);
+
+  // The most recent in-progress item, its message describes tool calls
+  const inProgressItem = useMemo(
+    () => progress?.filter((item) => item.status === 'in-progress').sort((a, b) => b.order - a.order)[0],
+    [progress],
+  );
+  const currentMessage = inProgressItem?.message;
   
   // Determine current state based on progress data
   const currentState = useMemo(() => {
     if (!progress || progress.length === 0) return 'summary';
     
-    // Find the most recent in-progress item
-    const inProgressItem = progress
-      .filter(item => item.status === 'in-progress')
-      .sort((a, b) => b.order - a.order)[0];
-    
     if (inProgressItem) {
       return inProgressItem.label;
     }
@@ -84,7 +100,7 @@ const AiStreamState = ({ isStreaming, progress }: { isStreaming: boolean; progre
     }
     
     return 'summary';
-  }, [progress]);
+  }, [progress, inProgressItem]);
   
   // Handle transitions
   useEffect(() => {
@@ -110,6 +126,10 @@ const AiStreamState = ({ isStreaming, progress }: { isStreaming: boolean; progre
       icon = <BookDashed className="w-4 h-4 text-[#969798]" />;
       displayText = 'Selecting context';
       break;
+    case 'tool':
+      icon = <Wrench className="w-4 h-4 text-[#969798]" />;
+      displayText = currentMessage || 'Using tools';
+      break;
     case 'response':
     default:
       icon = <Brain className="w-4 h-4 text-[#969798]" />;
@@ -157,9 +177,23 @@ export const AssistantMessage = ({
   completedFiles,
   activeCommand,
   completedCommands,
-  progress = []
+  progress = [],
+  usage,
+  stopped,
+  reasoning,
+  reasoningStartedAt,
+  reasoningMs,
+  notice
 }: AssistantMessageProps) => {
   const [displayContent, setDisplayContent] = useState<React.ReactNode>(null);
+  const showReasoning = useStore(showReasoningStore) && Boolean(reasoning);
+
+  // A tool call the model is waiting on, or a continuation after the model hit its output limit
+  const activity = isStreaming
+    ? progress
+        .filter((item) => (item.label === 'continuation' || item.label === 'tool') && item.status === 'in-progress')
+        .sort((a, b) => b.order - a.order)[0]
+    : undefined;
   
   useEffect(() => {
     if (content) {
@@ -214,12 +248,41 @@ export const AssistantMessage = ({
           <MessageSquare className="w-3.5 h-3.5 text-[#969798]" />
         </div>
         <div className="flex-1 text-[#f3f6f6] overflow-hidden break-words whitespace-pre-wrap overflow-wrap-anywhere">
-          {/* Show progress indicator when streaming but no content yet */}
-          {isStreaming && !content && (
+          {/* Show progress indicator when streaming but no content yet, the reasoning panel takes its place */}
+          {isStreaming && !content && !showReasoning && (
             <AiStreamState isStreaming={isStreaming} progress={progress} />
           )}
+
+          {showReasoning && (
+            <ReasoningPanel
+              reasoning={reasoning || ''}
+              startedAt={reasoningStartedAt}
+              durationMs={reasoningMs}
+              isStreaming={isStreaming}
+            />
+          )}
           
           {displayContent}
+
+          {activity && content && (
+            <div className="mt-2 text-[11px] text-[#969798] animate-pulse">{activity.message}</div>
+          )}
+
+          {stopped && (
+            <div className="mt-2 text-[11px] text-[#969798]">Stopped</div>
+          )}
+
+          {notice && (
+            <div className="mt-2 text-[11px] text-amber-400">{notice}</div>
+          )}
+
+          {/* Tokens and cost once the response is complete */}
+          {!isStreaming && usage && (
+            <div className="mt-2 text-[11px] text-[#969798]">
+              {usage.totalTokens.toLocaleString()} tokens
+              {usage.cost !== undefined && ` · ${formatCost(usage.cost)}${usage.costPartial ? '+' : ''}`}
+            </div>
+          )}
         </div>
       </div>
     </motion.div>
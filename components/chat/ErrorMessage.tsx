@@ -1,15 +1,55 @@
 'use client';
 
+import { useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { AlertTriangle } from 'lucide-react';
+import { AlertTriangle, RotateCcw, Settings, Shrink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCountdown } from '@/hooks/useCountdown';
+import type { ChatError, ChatErrorCode } from '@/types/index';
 
 interface ErrorMessageProps {
-  error: string;
+  error: ChatError;
+  onRetry?: () => void;
+  onOpenSettings?: () => void;
+  onSummarizeAndRetry?: () => void;
 }
 
-export const ErrorMessage = ({ error }: ErrorMessageProps) => {
+type ErrorAction = 'retry' | 'settings' | 'summarize';
+
+const ERROR_DETAILS: Record<ChatErrorCode, { title: string; action?: ErrorAction }> = {
+  'missing-api-key': { title: 'Missing or invalid API key', action: 'settings' },
+  'rate-limited': { title: 'Rate limited by the provider', action: 'retry' },
+  'context-too-long': { title: 'The conversation is too long for this model', action: 'summarize' },
+  'provider-unavailable': { title: 'The provider is unavailable', action: 'retry' },
+  'max-segments': { title: 'The response is too long to finish', action: 'retry' },
+  'invalid-request': { title: 'The request was rejected' },
+  'budget-exceeded': { title: 'Project budget reached' },
+  unknown: { title: 'AI Error' },
+};
+
+export const ErrorMessage = ({ error, onRetry, onOpenSettings, onSummarizeAndRetry }: ErrorMessageProps) => {
+  const details = ERROR_DETAILS[error.code] || ERROR_DETAILS.unknown;
+  // Unknown errors still get a retry when the server says it can help
+  const action = details.action || (error.retryable ? 'retry' : undefined);
+  // A new error restarts the wait, even when it asks for the same number of seconds
+  const retryAt = useMemo(() => (error.retryAfter ? Date.now() + error.retryAfter * 1000 : null), [error]);
+  const waitSeconds = useCountdown(retryAt);
+
+  const actionButton = (() => {
+    switch (action) {
+      case 'retry':
+        return onRetry && { label: 'Retry', icon: RotateCcw, onClick: onRetry };
+      case 'settings':
+        return onOpenSettings && { label: 'Open settings', icon: Settings, onClick: onOpenSettings };
+      case 'summarize':
+        return onSummarizeAndRetry && { label: 'Summarize and retry', icon: Shrink, onClick: onSummarizeAndRetry };
+      default:
+        return undefined;
+    }
+  })();
+
   return (
-    <motion.div 
+    <motion.div
       className="flex flex-col w-full mb-4"
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
@@ -17,11 +57,35 @@ export const ErrorMessage = ({ error }: ErrorMessageProps) => {
     >
       <div className="bg-red-900/20 border border-red-900/30 text-red-400 p-3 rounded-md flex items-start gap-2 text-xs w-full">
         <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
-        <div>
-          <p className="font-semibold">AI Error:</p>
-          <p>{error}</p>
+        <div className="flex flex-col gap-1 min-w-0">
+          <p className="font-semibold">
+            {details.title}
+            {error.stage && <span className="font-normal text-red-400/70"> · {error.stage}</span>}
+          </p>
+          <p className="break-words">{error.message}</p>
+          {error.fields && error.fields.length > 0 && (
+            <ul className="list-disc pl-4 text-red-400/80">
+              {error.fields.map((field) => (
+                <li key={`${field.path}:${field.message}`} className="break-words">
+                  <code>{field.path || 'body'}</code>: {field.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {actionButton && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={actionButton.onClick}
+              disabled={waitSeconds > 0}
+              className="self-start h-7 px-2 mt-1 text-xs text-red-300 hover:text-red-200 hover:bg-red-900/30"
+            >
+              <actionButton.icon className="w-3.5 h-3.5 mr-1" />
+              {waitSeconds > 0 ? `${actionButton.label} in ${waitSeconds}s` : actionButton.label}
+            </Button>
+          )}
         </div>
       </div>
     </motion.div>
   );
-}; 
\ No newline at end of file
+};
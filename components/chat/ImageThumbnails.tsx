@@ -0,0 +1,41 @@
+'use client';
+
+import Image from 'next/image';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ImageAttachment } from '@/types/index';
+
+interface ImageThumbnailsProps {
+  images: ImageAttachment[];
+  // Shows a remove button on each image, for attachments not sent yet
+  onRemove?: (index: number) => void;
+  className?: string;
+}
+
+export const ImageThumbnails = ({ images, onRemove, className }: ImageThumbnailsProps) => {
+  if (images.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {images.map((image, index) => (
+        <div
+          key={`${image.name}-${index}`}
+          className="relative h-16 w-16 rounded-md border border-[#313133] bg-[#212122] overflow-hidden group"
+        >
+          {/* Data URLs, there is nothing for the image optimizer to fetch */}
+          <Image src={image.dataUrl} alt={image.name} title={image.name} fill unoptimized className="object-cover" />
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(index)}
+              className="absolute top-0.5 right-0.5 h-4 w-4 rounded-full bg-[#101012]/80 text-[#f3f6f6] flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+              aria-label={`Remove ${image.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { FileWarning } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface InterruptedFileNoticeProps {
+  path: string;
+  onResolve: (action: 'keep' | 'revert') => void;
+}
+
+export const InterruptedFileNotice = ({ path, onResolve }: InterruptedFileNoticeProps) => {
+  return (
+    <motion.div
+      className="flex flex-col w-full mb-4"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="bg-[#161618] border border-[#313133] text-[#f3f6f6] p-3 rounded-md flex items-start gap-2 text-xs w-full">
+        <FileWarning className="w-4 h-4 mt-0.5 flex-shrink-0 text-[#969798]" />
+        <div className="flex flex-col gap-2 min-w-0">
+          <p>
+            Generation stopped while writing <span className="font-mono break-all">{path}</span>. The file may be
+            incomplete.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onResolve('keep')}
+              className="h-7 px-2 text-xs hover:bg-[#212122]"
+            >
+              Keep partial file
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => onResolve('revert')}
+              className="h-7 px-2 text-xs bg-[#f3f6f6] text-[#161618] hover:bg-[#e3e6e6]"
+            >
+              Revert
+            </Button>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Brain, ChevronDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ReasoningPanelProps {
+  reasoning: string;
+  // When the model started reasoning, set while it still is
+  startedAt?: number;
+  // Time spent reasoning, set once the answer text started
+  durationMs?: number;
+  isStreaming?: boolean;
+}
+
+const formatSeconds = (ms: number) => `${Math.max(1, Math.round(ms / 1000))}s`;
+
+export const ReasoningPanel = ({ reasoning, startedAt, durationMs, isStreaming }: ReasoningPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const thinking = Boolean(isStreaming && durationMs === undefined && startedAt);
+
+  // Ticks the elapsed time while the model is still reasoning
+  useEffect(() => {
+    if (!thinking) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => clearInterval(interval);
+  }, [thinking]);
+
+  const elapsed = durationMs ?? (thinking && startedAt ? now - startedAt : undefined);
+
+  return (
+    <div className="mb-3 rounded-md border border-[#313133] bg-[#161618] text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-[#969798] hover:text-[#f3f6f6] transition-colors"
+        aria-expanded={open}
+      >
+        <Brain className={cn('h-3.5 w-3.5', thinking && 'animate-pulse')} />
+        <span>
+          {thinking ? 'Thinking' : 'Thought'}
+          {elapsed !== undefined && ` for ${formatSeconds(elapsed)}`}
+        </span>
+        <ChevronDown className={cn('ml-auto h-3.5 w-3.5 transition-transform', open && 'rotate-180')} />
+      </button>
+      {open && (
+        <div className="max-h-64 overflow-y-auto border-t border-[#313133] px-3 py-2 text-[#969798] whitespace-pre-wrap">
+          {reasoning}
+        </div>
+      )}
+    </div>
+  );
+};
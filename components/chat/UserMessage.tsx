@@ -3,12 +3,15 @@
 import { memo } from 'react';
 import { motion } from 'framer-motion';
 import { User } from 'lucide-react';
+import { ImageThumbnails } from './ImageThumbnails';
+import type { ImageAttachment } from '@/types/index';
 
 interface UserMessageProps {
   content: string;
+  images?: ImageAttachment[];
 }
 
-export const UserMessage = memo(({ content }: UserMessageProps) => {
+export const UserMessage = memo(({ content, images = [] }: UserMessageProps) => {
   return (
     <motion.div 
       className="flex flex-col w-full mb-4"
@@ -21,6 +24,7 @@ export const UserMessage = memo(({ content }: UserMessageProps) => {
           <User className="w-3.5 h-3.5 text-[#e3e6e6]" />
         </div>
         <div className="flex-1 text-[#f2f6f6] break-words whitespace-pre-wrap overflow-wrap-anywhere pr-2 overflow-hidden">
+          <ImageThumbnails images={images} className="mb-2" />
           {content}
         </div>
       </div>
@@ -0,0 +1,122 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { cn, formatCost } from '@/lib/utils';
+import type { ChatTrace, TraceAttributeValue, TraceSpan } from '@/types/index';
+
+const SPAN_COLORS: Record<TraceSpan['name'], string> = {
+  summary: 'bg-violet-500/70',
+  context: 'bg-sky-500/70',
+  enhancer: 'bg-slate-500/70',
+  response: 'bg-emerald-500/70',
+  continuation: 'bg-teal-500/70',
+  tool: 'bg-amber-500/70',
+};
+
+export const formatDuration = (ms?: number) => {
+  if (ms === undefined) return '…';
+
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const formatAttribute = (value: TraceAttributeValue) => {
+  if (Array.isArray(value)) {
+    return value.length ? value.join(', ') : '—';
+  }
+
+  return String(value);
+};
+
+const SpanRow = ({ span, traceStart, traceDuration }: { span: TraceSpan; traceStart: number; traceDuration: number }) => {
+  const offset = ((span.startedAt - traceStart) / traceDuration) * 100;
+  const width = Math.max((((span.endedAt ?? Date.now()) - span.startedAt) / traceDuration) * 100, 0.5);
+
+  return (
+    <div className="flex flex-col gap-1.5 py-2 border-b border-[#212122] last:border-b-0">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="w-24 font-medium text-[#f3f6f6]">{span.name}</span>
+        <div className="relative flex-1 h-2 rounded bg-[#212122]">
+          <div
+            className={cn('absolute h-2 rounded', SPAN_COLORS[span.name], span.status === 'error' && 'bg-red-500/80')}
+            style={{ left: `${Math.min(offset, 99.5)}%`, width: `${Math.min(width, 100 - offset)}%` }}
+          />
+        </div>
+        <span className="w-16 text-right text-[#969798]">{formatDuration(span.durationMs)}</span>
+      </div>
+      <div className="ml-[6.5rem] flex flex-col gap-0.5 text-[11px] text-[#969798]">
+        {span.model && (
+          <span>
+            {span.provider}/{span.model}
+            {span.fallbackFrom && ` (fallback from ${span.fallbackFrom})`}
+          </span>
+        )}
+        {span.usage && (
+          <span>
+            {span.usage.promptTokens.toLocaleString()} in · {span.usage.completionTokens.toLocaleString()} out
+          </span>
+        )}
+        {Object.entries(span.attributes).map(([key, value]) => (
+          <span key={key} className="break-words">
+            <span className="text-[#6b6c6d]">{key}:</span> {formatAttribute(value)}
+          </span>
+        ))}
+        {span.events.map((event, index) => (
+          <span key={index} className="break-words">
+            <span className="text-[#6b6c6d]">+{formatDuration(event.at - span.startedAt)}</span> {event.name}
+            {Object.entries(event.attributes).map(([key, value]) => ` · ${key}: ${formatAttribute(value)}`)}
+          </span>
+        ))}
+        {span.error && <span className="text-red-400">{span.error.code}: {span.error.message}</span>}
+      </div>
+    </div>
+  );
+};
+
+export const TraceDetail = ({ trace }: { trace: ChatTrace }) => {
+  const traceDuration = Math.max((trace.endedAt ?? Date.now()) - trace.startedAt, 1);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-1">
+        <span className="text-sm font-medium text-[#f3f6f6]">
+          {trace.provider}/{trace.model}
+        </span>
+        <span className="text-xs text-[#969798]">
+          {new Date(trace.startedAt).toLocaleString()} · {formatDuration(trace.durationMs)} · {trace.status} ·{' '}
+          {trace.messageCount} messages ({trace.historyTokens.toLocaleString()} tokens)
+        </span>
+        <span className="text-xs text-[#969798]">
+          {trace.usage.totalTokens.toLocaleString()} tokens used
+          {trace.usage.cost !== undefined && ` · ${formatCost(trace.usage.cost)}`}
+        </span>
+      </div>
+
+      {trace.error && (
+        <div className="bg-red-900/20 border border-red-900/30 text-red-400 p-3 rounded-md flex items-start gap-2 text-xs">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span className="break-words">
+            {trace.error.code}
+            {trace.error.stage && ` in ${trace.error.stage}`}: {trace.error.message}
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-col">
+        <span className="text-xs font-medium text-[#969798] mb-1">Spans</span>
+        {trace.spans.length === 0 && <span className="text-xs text-[#969798]">No spans recorded</span>}
+        {trace.spans.map((span) => (
+          <SpanRow key={span.id} span={span} traceStart={trace.startedAt} traceDuration={traceDuration} />
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-medium text-[#969798]">Selected files ({trace.selectedFiles.length})</span>
+        {trace.selectedFiles.map((file) => (
+          <code key={file} className="text-[11px] text-[#f3f6f6]">
+            {file}
+          </code>
+        ))}
+      </div>
+    </div>
+  );
+};
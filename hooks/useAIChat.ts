@@ -1,10 +1,25 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { WebContainer } from '@webcontainer/api';
+import { generateId } from 'ai';
 import { FileEntry } from '@/types';
 import { OPENROUTER_API_URL, DEFAULT_MODEL, MAX_TERMINAL_EXECUTION_TIME } from '@/lib/constants';
 import { getSystemPrompt } from '@/lib/prompt';
+import type { ModelSelection } from '@/stores/model';
+import { addProjectCost, getBudgetRefusal } from '@/stores/usage';
+import { getProjectPrompt } from '@/stores/prompts';
+import { saveGenerationSnapshot, takeGenerationSnapshot } from '@/stores/generation';
+import { commandToolStore, toolCallingStore } from '@/stores/settings';
+import { executeChatTool } from '@/lib/chat-tools';
+import type {
+  ChatError,
+  ChatToolName,
+  ContextAnnotation,
+  ImageAttachment,
+  ModelRouting,
+  UsageInfo,
+} from '@/types/index';
 import he from 'he';
 
 // Define constants for tags to ensure consistency
@@ -13,9 +28,101 @@ const BOLT_ACTION_TAG_CLOSE = '</boltAction>';
 const BOLT_ARTIFACT_TAG_OPEN = '<boltArtifact';
 const BOLT_ARTIFACT_TAG_CLOSE = '</boltArtifact>';
 
+// Reconnects to the same generation after a dropped connection, waiting a little longer each time
+const MAX_RECONNECT_ATTEMPTS = 3;
+const RECONNECT_DELAY_MS = 1000;
+
 interface ChatMessage {
+  // Stable for the life of the chat, the server's summary refers to the last message it covers by id
+  id: string;
   role: 'user' | 'assistant';
   content: string;
+  // Annotations the server attached to an answer, sent back so the summary and selected files carry over
+  annotations?: ContextAnnotation[];
+  // What a thinking model reasoned before answering, never part of the content the file parser reads
+  reasoning?: string;
+  // Set while the model reasons, replaced by the time it took once the answer text starts
+  reasoningStartedAt?: number;
+  reasoningMs?: number;
+  // Images the user attached, sent to the model along with the text
+  images?: ImageAttachment[];
+  // Tokens and cost of producing an assistant message
+  usage?: UsageInfo;
+  // Set when the user stopped the generation before it finished
+  stopped?: boolean;
+}
+
+// Attached images go to the model as image parts next to the text
+const toRequestMessage = ({ id, role, content, images, annotations }: ChatMessage) => ({
+  id,
+  role,
+  content: images?.length
+    ? [
+        { type: 'text', text: content },
+        ...images.map((image) => ({ type: 'image', image: image.dataUrl, mimeType: image.mimeType })),
+      ]
+    : content,
+  annotations,
+});
+
+// Carries the typed error from a failed /api/chat response
+class ChatRequestError extends Error {
+  constructor(readonly chatError: ChatError) {
+    super(chatError.message);
+    this.name = 'ChatRequestError';
+  }
+}
+
+// Reads the typed error body of a failed response, falling back to the status for anything else
+const readChatError = async (response: Response): Promise<ChatError> => {
+  const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+
+  try {
+    const body = await response.json();
+
+    if (body && typeof body.code === 'string' && typeof body.message === 'string') {
+      return { retryAfter, ...body } as ChatError;
+    }
+  } catch {
+    // Not a typed error body
+  }
+
+  return {
+    code: response.status === 429 ? 'rate-limited' : 'unknown',
+    message: `HTTP error! Status: ${response.status}`,
+    retryable: response.status === 429 || response.status >= 500,
+    retryAfter,
+  };
+};
+
+// The data stream's error part holds the typed error as a JSON string
+const parseErrorPart = (part: string): ChatError => {
+  try {
+    const value = JSON.parse(part);
+    const chatError = typeof value === 'string' ? JSON.parse(value) : value;
+
+    if (chatError && typeof chatError.code === 'string') {
+      return chatError as ChatError;
+    }
+
+    return { code: 'unknown', message: String(value), retryable: false };
+  } catch {
+    return { code: 'unknown', message: part, retryable: false };
+  }
+};
+
+interface SendMessageOptions {
+  modelRouting?: ModelRouting;
+  history?: ChatMessage[];
+  forceSummary?: boolean;
+  images?: ImageAttachment[];
+}
+
+// The generation being streamed and how much of it has been processed
+interface ActiveGeneration {
+  id: string;
+  offset: number;
+  content: string;
 }
 
 // Define GeneratedFile interface locally since it's not exported from @/types
@@ -44,10 +151,12 @@ export const useAIChat = (
   selectedFile: string | null,
   setSelectedFile: (file: string | null) => void,
   runTerminalCommand?: (command: string, terminalId: string) => Promise<{ exitCode: number }>,
+  modelSelection?: ModelSelection,
+  projectId?: string,
 ) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
-  const [openRouterError, setOpenRouterError] = useState<string | null>(null);
+  const [chatError, setChatError] = useState<ChatError | null>(null);
   const [streamingComplete, setStreamingComplete] = useState(true);
   const [processingFiles, setProcessingFiles] = useState(false);
   const partialResponseRef = useRef<string>('');
@@ -73,6 +182,58 @@ export const useAIChat = (
   const [activeCommand, setActiveCommand] = useState<string | null>(null);
   const [completedCommands, setCompletedCommands] = useState<Set<string>>(new Set());
 
+  // Cancels the in-flight request when the user presses Stop
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Content of each file before the current generation touched it, null for files it created
+  const originalFilesRef = useRef<Record<string, string | null>>({});
+  // The file that was half written when the generation was stopped, until the user keeps or reverts it
+  const [interruptedFile, setInterruptedFile] = useState<string | null>(null);
+
+  // Lets a dropped connection or a reloaded page reconnect to the generation on the server
+  const generationRef = useRef<ActiveGeneration | null>(null);
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  messagesRef.current = messages;
+  // Tool calls already run, so a stream replayed after a reconnect doesn't run them twice
+  const handledToolCallsRef = useRef<Set<string>>(new Set());
+  // Whether the last part streamed was reasoning, the first text after it ends the thinking time
+  const reasoningActiveRef = useRef(false);
+
+  // Save the generation on the way out so the reloaded page can resume it
+  useEffect(() => {
+    if (!projectId) return;
+
+    const saveSnapshot = () => {
+      const generation = generationRef.current;
+      if (!generation) return;
+
+      const state = fileExtractionStateRef.current;
+      const chat = messagesRef.current.map(({ id, role, content, annotations, reasoning, reasoningMs }) => ({
+        id,
+        role,
+        content,
+        annotations,
+        reasoning,
+        reasoningMs,
+      }));
+
+      if (chat[chat.length - 1]?.role === 'assistant') {
+        chat[chat.length - 1].content = generation.content;
+      }
+
+      saveGenerationSnapshot(projectId, {
+        id: generation.id,
+        offset: generation.offset,
+        messages: chat,
+        partialResponse: partialResponseRef.current,
+        extraction: { ...state, completedFiles: Array.from(state.completedFiles) },
+        originalFiles: originalFilesRef.current,
+      });
+    };
+
+    window.addEventListener('pagehide', saveSnapshot);
+    return () => window.removeEventListener('pagehide', saveSnapshot);
+  }, [projectId]);
+
 
   // Process streamed content in real-time to detect and write files
   const processStreamedContent = async (chunk: string) => {
@@ -255,6 +416,82 @@ export const useAIChat = (
     state.lastScanLength = searchPos;
   };
 
+  // Runs a tool call from the stream in the WebContainer and posts the result back to the waiting generation
+  const runToolCall = async (call: { toolCallId: string; toolName: ChatToolName; args: Record<string, any> }) => {
+    const generationId = generationRef.current?.id;
+
+    if (!generationId || handledToolCallsRef.current.has(call.toolCallId)) return;
+
+    handledToolCallsRef.current.add(call.toolCallId);
+
+    // The server only offers runCommand when it is allowed, this also holds if the setting was turned off meanwhile
+    const result =
+      call.toolName === 'runCommand' && !commandToolStore.get()
+        ? { error: 'Running commands is turned off in the settings' }
+        : webContainerInstance
+          ? await executeChatTool(webContainerInstance, call.toolName, call.args)
+          : { error: 'The WebContainer is not ready yet' };
+
+    try {
+      const response = await fetch(`/api/chat/${generationId}/tools`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ toolCallId: call.toolCallId, result }),
+      });
+
+      if (!response.ok) {
+        console.error(`Tool result for ${call.toolName} was not accepted:`, response.status);
+      }
+    } catch (error) {
+      console.error(`Error sending tool result for ${call.toolName}:`, error);
+    }
+  };
+
+  const updateStreamingMessage = (update: (message: ChatMessage) => ChatMessage) => {
+    setMessages(prev => {
+      const updatedMessages = [...prev];
+      const lastMessage = updatedMessages[updatedMessages.length - 1];
+      if (lastMessage?.role === 'assistant') {
+        updatedMessages[updatedMessages.length - 1] = update(lastMessage);
+      }
+      return updatedMessages;
+    });
+  };
+
+  // Keep the annotations on the message being streamed
+  const addAnnotations = (annotations: ContextAnnotation[]) => {
+    updateStreamingMessage((message) => ({
+      ...message,
+      annotations: [...(message.annotations || []), ...annotations],
+    }));
+  };
+
+  // Reasoning comes before the answer text, and again after each tool call in tool-calling mode
+  const addReasoning = (text: string) => {
+    reasoningActiveRef.current = true;
+    updateStreamingMessage((message) => ({
+      ...message,
+      reasoning: (message.reasoning || '') + text,
+      // A later phase adds to the time already spent reasoning
+      reasoningStartedAt:
+        message.reasoningMs !== undefined
+          ? Date.now() - message.reasoningMs
+          : message.reasoningStartedAt ?? Date.now(),
+      reasoningMs: undefined,
+    }));
+  };
+
+  const endReasoning = () => {
+    if (!reasoningActiveRef.current) return;
+
+    reasoningActiveRef.current = false;
+    updateStreamingMessage((message) =>
+      message.reasoningStartedAt !== undefined && message.reasoningMs === undefined
+        ? { ...message, reasoningMs: Date.now() - message.reasoningStartedAt }
+        : message
+    );
+  };
+
   // Handle special chunks like code annotations, thoughts, and progress updates
   const processSpecialContent = (data: any) => {
     if (!data) return;
@@ -292,20 +529,48 @@ export const useAIChat = (
           ...prev,
           usage: data.value
         }));
-      } else if (data.type === 'codeContext') {
-        console.log('Code context files:', data.files);
-        // Could show which files are being used for context
-      } else if (data.type === 'chatSummary') {
-        console.log('Chat summary:', data.summary);
-        // Could show the summary somewhere in the UI
+        // Attach the usage to the message being streamed
+        setMessages(prev => {
+          const updatedMessages = [...prev];
+          const lastMessage = updatedMessages[updatedMessages.length - 1];
+          if (lastMessage?.role === 'assistant') {
+            updatedMessages[updatedMessages.length - 1] = { ...lastMessage, usage: data.value };
+          }
+          return updatedMessages;
+        });
+        if (projectId && data.value) {
+          addProjectCost(projectId, data.value.cost, data.value.costPartial);
+        }
+      } else if (data.type === 'model') {
+        console.log(`Model for ${data.task}:`, data.provider, data.model, data.fallbackFrom ? `(fallback from ${data.fallbackFrom})` : '');
+        // Keep track of which model answered each stage
+        setStreamingData((prev: any) => ({
+          ...prev,
+          models: { ...prev?.models, [data.task]: data }
+        }));
       }
     } catch (error) {
       console.error('Error processing special content:', error);
     }
   };
 
+  // Remember a file's content the first time this generation writes it, so a stopped write can be reverted
+  const rememberOriginalContent = (path: string) => {
+    if (path in originalFilesRef.current) return;
+
+    const existing = files[path];
+
+    if (existing?.type !== 'file') {
+      originalFilesRef.current[path] = null;
+    } else {
+      originalFilesRef.current[path] = typeof existing.content === 'string' ? existing.content : '';
+    }
+  };
+
   // Helper to create an empty file
   const createEmptyFile = async (webContainer: WebContainer, path: string) => {
+    rememberOriginalContent(path);
+
     try {
       // Create parent directory if needed
       const dirPath = path.substring(0, path.lastIndexOf('/'));
@@ -340,6 +605,8 @@ export const useAIChat = (
 
   // Write a file to WebContainer and update local state
   const writeFileToWebContainer = async (webContainer: WebContainer, file: GeneratedFile) => {
+    rememberOriginalContent(file.path);
+
     try {
       // Create parent directory if needed
       const dirPath = file.path.substring(0, file.path.lastIndexOf('/'));
@@ -492,10 +759,17 @@ export const useAIChat = (
   };
 
   // Process the SSE stream from the server
-  const processSSEStream = async (reader: ReadableStreamDefaultReader<Uint8Array>, decoder: TextDecoder) => {
-    let assistantContent = '';
+  const processSSEStream = async (
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    decoder: TextDecoder,
+    initialContent = ''
+  ) => {
+    let assistantContent = initialContent;
     let buffer = '';
     let inProgressContent = '';
+    // Offsets are counted in characters of the generation's stream, starting where this connection picked up
+    const startOffset = generationRef.current?.offset || 0;
+    let received = 0;
     
     try {
       // Initialize file extraction state if not already done
@@ -522,6 +796,7 @@ export const useAIChat = (
         // Decode this chunk
         const chunk = decoder.decode(value, { stream: true });
         buffer += chunk;
+        received += chunk.length;
         
         // Process lines
         let newlineIndex;
@@ -565,12 +840,28 @@ export const useAIChat = (
               const dataContent = line.slice(2);
               const parsedData = JSON.parse(dataContent);
               if (Array.isArray(parsedData) && parsedData.length > 0) {
-                processSpecialContent(parsedData[0]);
+                // Message annotations belong to the answer and go back to the server with it
+                if (line.startsWith('8:')) {
+                  addAnnotations(parsedData);
+                }
+
+                parsedData.forEach(processSpecialContent);
               }
             } catch (e) {
               console.error('Error parsing annotation data:', e, line);
             }
+          } else if (line.startsWith('g:')) {
+            // Model reasoning, shown on its own and kept out of the file parser
+            try {
+              addReasoning(JSON.parse(line.slice(2)));
+            } catch (e) {
+              console.error('Error parsing reasoning:', e, line);
+            }
+          } else if (line.startsWith('h:') || line.startsWith('j:')) {
+            // Redacted reasoning and reasoning signatures, only meaningful to the provider
           } else if (line.startsWith('0:')) {
+            endReasoning();
+
             // Text content format from the new API
             let content = line.slice(2);
             
@@ -590,6 +881,18 @@ export const useAIChat = (
             inProgressContent += content;
             assistantContent += content;
             await processStreamedContent(content);
+          } else if (line.startsWith('3:')) {
+            // Typed error from the server, the stream ends after it
+            setChatError(parseErrorPart(line.slice(2)));
+          } else if (line.startsWith('9:')) {
+            // A tool call in tool-calling mode, the generation waits on the server until the result comes back
+            try {
+              runToolCall(JSON.parse(line.slice(2)));
+            } catch (e) {
+              console.error('Error parsing tool call:', e, line);
+            }
+          } else if (line.startsWith('a:') || line.startsWith('b:') || line.startsWith('c:')) {
+            // Tool results and streamed tool call arguments, nothing to show
           } else if (line.startsWith('f:') || line.startsWith('e:') || line.startsWith('d:')) {
             // Metadata about the request - can be used for logging
           } else if (line.trim() && !line.startsWith(':')) {
@@ -611,6 +914,12 @@ export const useAIChat = (
           }
         }
         
+        // Complete lines are processed, a reconnect resumes right after them
+        if (generationRef.current) {
+          generationRef.current.offset = startOffset + received - buffer.length;
+          generationRef.current.content = assistantContent;
+        }
+
         // Process any remaining content in the buffer if it's substantial
         if (buffer.length > 0 && !buffer.trim().startsWith(':')) {
           inProgressContent += buffer;
@@ -633,6 +942,8 @@ export const useAIChat = (
         assistantContent += buffer;
         await processStreamedContent(buffer);
       }
+
+      endReasoning();
       
       return assistantContent;
     } catch (error) {
@@ -641,17 +952,103 @@ export const useAIChat = (
     }
   };
 
-  // Main function to send message to AI
-  const sendMessageToAI = async (message: string) => {
-    if (!message.trim() || !webContainerInstance) return;
-    
+  // Reads a generation to the end, reconnecting from the last processed offset when the connection drops
+  const consumeGeneration = async (response: Response) => {
+    let currentResponse: Response | null = response;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const generation = generationRef.current;
+
+        if (!currentResponse && generation) {
+          currentResponse = await fetch(`/api/chat/${generation.id}?offset=${generation.offset}`, {
+            signal: abortControllerRef.current?.signal,
+          });
+
+          if (!currentResponse.ok) {
+            throw new Error(`Could not resume the response, status: ${currentResponse.status}`);
+          }
+        }
+
+        if (!currentResponse?.body) {
+          throw new Error('Response body is null');
+        }
+
+        return await processSSEStream(currentResponse.body.getReader(), new TextDecoder(), generation?.content);
+      } catch (error: any) {
+        const generation = generationRef.current;
+
+        if (error?.name === 'AbortError' || !generation || attempt >= MAX_RECONNECT_ATTEMPTS) {
+          throw error;
+        }
+
+        console.warn(`Connection lost, resuming generation ${generation.id} from offset ${generation.offset}`, error);
+        currentResponse = null;
+        await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS * (attempt + 1)));
+      }
+    }
+  };
+
+  // Writes the remaining files and runs the response's shell commands, returns false if the user stopped first
+  const completeGeneration = async (finalContent: string) => {
+    // Finalize and properly close any remaining files
+    await finalizeFileProcessing(finalContent);
+
+    // Add a small delay to ensure all file updates are visibly complete
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    // A stop pressed after the stream ended still skips the commands
+    if (abortControllerRef.current?.signal.aborted) {
+      handleStopped();
+      return false;
+    }
+
+    // Process any shell commands embedded in the response
+    await processShellCommands(finalContent);
+
+    // Note: We no longer automatically restart npm run dev after command execution.
+    // This prevents multiple dev servers from running simultaneously.
+    return true;
+  };
+
+  const handleGenerationError = (error: any) => {
+    if (error?.name === 'AbortError') {
+      handleStopped();
+    } else {
+      console.error('Error in AI API call:', error);
+      setChatError(
+        error instanceof ChatRequestError
+          ? error.chatError
+          : { code: 'unknown', message: `API error: ${error.message}`, retryable: false }
+      );
+    }
+  };
+
+  const endGeneration = () => {
+    abortControllerRef.current = null;
+    generationRef.current = null;
+    // Always mark streaming as complete
+    setStreamingComplete(true);
+    setProcessingFiles(false);
+  };
+
+  // Streams the answer to a message sendMessageToAI accepted
+  const generateResponse = async (message: string, options?: SendMessageOptions) => {
+    if (!webContainerInstance) return;
+
     try {
       // Reset error state
-      setOpenRouterError(null);
+      setChatError(null);
       
       // Add user message to chat history
-      const userMessage = { role: 'user' as const, content: message };
-      setMessages(prev => [...prev, userMessage]);
+      const history = options?.history ?? messages;
+      const userMessage: ChatMessage = {
+        id: generateId(),
+        role: 'user',
+        content: message,
+        images: options?.images?.length ? options.images : undefined,
+      };
+      setMessages([...history, userMessage]);
       
       // Reset file tracking refs
       fileExtractionStateRef.current = {
@@ -665,6 +1062,10 @@ export const useAIChat = (
         currentActionStartIndex: -1
       };
       partialResponseRef.current = '';
+      originalFilesRef.current = {};
+      handledToolCallsRef.current = new Set();
+      reasoningActiveRef.current = false;
+      setInterruptedFile(null);
       setStreamingData(null);
       
       // Start streaming indicators
@@ -678,24 +1079,36 @@ export const useAIChat = (
       // Add empty assistant message immediately to enable real-time updates
       setMessages(prev => [
         ...prev, 
-        { role: 'assistant', content: '' }
+        { id: generateId(), role: 'assistant', content: '' }
       ]);
       
-      // Prepare messages for API with proper format
+      // Prepare messages for API with proper format, tagging the new message with the selected model
       const thread = [
-        ...messages,
-        userMessage
-      ];
+        ...history,
+        modelSelection
+          ? { ...userMessage, content: `[Model: ${modelSelection.model}]\n\n[Provider: ${modelSelection.provider}]\n\n${message}` }
+          : userMessage
+      ].map(toRequestMessage);
       
+      // Custom prompts live in this browser, so they are sent along with their id
+      const { promptId, customPrompt } = projectId ? getProjectPrompt(projectId) : {};
+
       // Prepare request payload
       const requestPayload = {
         messages: thread,
         files,
-        promptId: undefined, // You can add this if needed
+        promptId,
+        customPrompt,
         contextOptimization: true, // Enable context optimization
+        modelRouting: options?.modelRouting,
+        forceSummary: options?.forceSummary,
+        toolCalling: toolCallingStore.get(),
+        commandTool: commandToolStore.get(),
         supabase: undefined // You can add Supabase connection details if needed
       };
       
+      abortControllerRef.current = new AbortController();
+
       // Start the fetch to our API endpoint
       const response = await fetch('/api/chat', {
         method: 'POST',
@@ -703,44 +1116,203 @@ export const useAIChat = (
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(requestPayload),
+        signal: abortControllerRef.current.signal,
       });
       
       if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
-      
-      if (!response.body) {
-        throw new Error('Response body is null');
+        throw new ChatRequestError(await readChatError(response));
       }
       
+      // The server buffers the output under this id, so a dropped connection can pick up where it left off
+      const generationId = response.headers.get('X-Generation-Id');
+      generationRef.current = generationId ? { id: generationId, offset: 0, content: '' } : null;
+
       // Process the stream
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      
-      const finalContent = await processSSEStream(reader, decoder);
-      
-      // Finalize and properly close any remaining files
-      await finalizeFileProcessing(finalContent || '');
-      
-      // Add a small delay to ensure all file updates are visibly complete
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Process any shell commands embedded in the response
-      await processShellCommands(finalContent || '');
-      
-      // Note: We no longer automatically restart npm run dev after command execution.
-      // This prevents multiple dev servers from running simultaneously.
-      
-      // Reset input
-      setInput('');
-      
+      const finalContent = await consumeGeneration(response);
+
+      if (await completeGeneration(finalContent || '')) {
+        // Reset input
+        setInput('');
+      }
     } catch (error: any) {
-      console.error('Error in AI API call:', error);
-      setOpenRouterError(`API error: ${error.message}`);
+      handleGenerationError(error);
     } finally {
-      // Always mark streaming as complete
-      setStreamingComplete(true);
-      setProcessingFiles(false);
+      endGeneration();
+    }
+  };
+
+  /*
+   * Main function to send message to AI
+   * - `modelRouting` overrides the routing settings for this request only
+   * - `history` replaces the chat before the message, used when retrying
+   * - `forceSummary` summarizes the history even when it is short
+   * - `images` are attached to the message
+   * Returns false when the message was refused, so the caller can keep the prompt
+   */
+  const sendMessageToAI = (message: string, options?: SendMessageOptions): boolean => {
+    if (!message.trim() || !webContainerInstance) return false;
+
+    // Stop spending once the project's budget cap is reached or can no longer be checked
+    const budgetRefusal = projectId ? getBudgetRefusal(projectId) : undefined;
+
+    if (budgetRefusal) {
+      setChatError({ code: 'budget-exceeded', message: budgetRefusal, retryable: false });
+      return false;
+    }
+
+    generateResponse(message, options);
+
+    return true;
+  };
+
+  /**
+   * Picks up a generation that was still streaming when the page was reloaded
+   * @returns True when there was one to resume
+   */
+  const resumeInterruptedGeneration = () => {
+    const snapshot = projectId ? takeGenerationSnapshot(projectId) : undefined;
+
+    if (!snapshot || !webContainerInstance) return false;
+
+    const extraction = { ...snapshot.extraction, completedFiles: new Set(snapshot.extraction.completedFiles) };
+
+    // Snapshots saved before messages had ids get new ones
+    setMessages(snapshot.messages.map((message) => ({ ...message, id: message.id || generateId() })));
+    setChatError(null);
+    setInterruptedFile(null);
+    setStreamingData(null);
+    setProcessingFiles(true);
+    setStreamingComplete(false);
+    setActiveFile(extraction.currentFilePath);
+    setCompletedFiles(new Set(extraction.completedFiles));
+
+    partialResponseRef.current = snapshot.partialResponse;
+    fileExtractionStateRef.current = extraction;
+    originalFilesRef.current = snapshot.originalFiles;
+    generationRef.current = {
+      id: snapshot.id,
+      offset: snapshot.offset,
+      content: snapshot.messages[snapshot.messages.length - 1]?.content || '',
+    };
+    abortControllerRef.current = new AbortController();
+
+    const resume = async () => {
+      try {
+        // The WebContainer starts fresh after a reload, so first rewrite what the generation had already written
+        await restoreWrittenFiles(snapshot.partialResponse.slice(0, extraction.lastScanLength), extraction);
+
+        const response = await fetch(`/api/chat/${snapshot.id}?offset=${snapshot.offset}`, {
+          signal: abortControllerRef.current?.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(
+            response.status === 404
+              ? 'The interrupted response has expired and could not be resumed'
+              : `HTTP error! Status: ${response.status}`
+          );
+        }
+
+        const finalContent = await consumeGeneration(response);
+        await completeGeneration(finalContent || '');
+      } catch (error: any) {
+        handleGenerationError(error);
+      } finally {
+        endGeneration();
+      }
+    };
+
+    resume();
+    return true;
+  };
+
+  // Rewrites the files a generation completed before the reload, plus the one it was in the middle of
+  const restoreWrittenFiles = async (scannedContent: string, state: FileExtractionState) => {
+    if (!webContainerInstance) return;
+
+    const fileRegex = new RegExp(`${BOLT_ACTION_TAG_OPEN}\\s+type="file"\\s+filePath="([^"]+)">([\\s\\S]*?)${BOLT_ACTION_TAG_CLOSE}`, 'g');
+    let match;
+
+    while ((match = fileRegex.exec(scannedContent)) !== null) {
+      const filePath = he.decode(match[1]);
+
+      if (state.completedFiles.has(filePath)) {
+        await writeFileToWebContainer(webContainerInstance, { path: filePath, content: match[2] });
+      }
+    }
+
+    if (state.insideAction && state.actionFilePath && state.partialContent) {
+      await writeFileToWebContainer(webContainerInstance, { path: state.actionFilePath, content: state.partialContent });
+    }
+  };
+
+  // Sends the last user message again, replacing the failed answer
+  const retryLastMessage = (options?: { forceSummary?: boolean }) => {
+    const lastUserIndex = messages.map((m) => m.role).lastIndexOf('user');
+
+    if (lastUserIndex === -1 || !streamingComplete) return;
+
+    sendMessageToAI(messages[lastUserIndex].content, {
+      history: messages.slice(0, lastUserIndex),
+      images: messages[lastUserIndex].images,
+      forceSummary: options?.forceSummary,
+    });
+  };
+
+  // Keep the partial answer, flagged as stopped, and hand any half-written file to the user
+  const handleStopped = () => {
+    const state = fileExtractionStateRef.current;
+
+    setMessages(prev => {
+      const updatedMessages = [...prev];
+      const lastMessage = updatedMessages[updatedMessages.length - 1];
+      if (lastMessage?.role === 'assistant') {
+        updatedMessages[updatedMessages.length - 1] = { ...lastMessage, stopped: true };
+      }
+      return updatedMessages;
+    });
+
+    if (state.insideAction && state.actionType === 'file' && state.actionFilePath) {
+      setInterruptedFile(state.actionFilePath);
+    }
+
+    state.insideAction = false;
+    state.actionType = null;
+    state.actionFilePath = null;
+    state.currentActionStartIndex = -1;
+    state.currentFilePath = null;
+    setActiveFile(null);
+  };
+
+  // Keeps or reverts the file that was being written when the generation was stopped
+  const resolveInterruptedFile = async (action: 'keep' | 'revert') => {
+    const path = interruptedFile;
+    setInterruptedFile(null);
+
+    if (!path || action === 'keep' || !webContainerInstance) return;
+
+    const original = originalFilesRef.current[path];
+
+    if (original === undefined) return;
+
+    if (original !== null) {
+      await writeFileToWebContainer(webContainerInstance, { path, content: original });
+      return;
+    }
+
+    // The generation created this file, so reverting removes it
+    try {
+      await webContainerInstance.fs.rm(path, { force: true });
+
+      const updatedFiles = { ...files };
+      delete updatedFiles[path];
+      setFiles(updatedFiles);
+
+      if (selectedFile === path) {
+        setSelectedFile(null);
+      }
+    } catch (error) {
+      console.error(`Failed to remove ${path}:`, error);
     }
   };
 
@@ -806,19 +1378,31 @@ export const useAIChat = (
     }
   };
 
-  // Expose callback to stop streaming if needed
+  // Abort the in-flight request and tell the server to cancel the model calls
   const stopStreaming = useCallback(() => {
-    // This would ideally abort the fetch request
-    // If you implement an AbortController, you can abort the request here
+    const generation = generationRef.current;
+
+    abortControllerRef.current?.abort();
+
+    // Closing the connection alone leaves the generation running for a possible reconnect
+    if (generation) {
+      fetch(`/api/chat/${generation.id}`, { method: 'DELETE' }).catch((error) => {
+        console.error('Failed to stop the generation on the server:', error);
+      });
+    }
   }, []);
 
   return {
     messages,
     input,
     setInput,
-    openRouterError,
+    chatError,
     sendMessageToAI,
+    retryLastMessage,
     stopStreaming,
+    interruptedFile,
+    resolveInterruptedFile,
+    resumeInterruptedGeneration,
     processingFiles,
     streamingComplete,
     activeFile,
@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+const secondsUntil = (until: number | null) => (until ? Math.max(0, Math.ceil((until - Date.now()) / 1000)) : 0);
+
+/**
+ * Counts down to a moment, e.g. the end of a Retry-After wait
+ * @param until Epoch milliseconds to count down to, null when there is nothing to wait for
+ * @returns Whole seconds left, 0 once the moment has passed
+ */
+export function useCountdown(until: number | null) {
+  const [remaining, setRemaining] = useState(() => secondsUntil(until));
+
+  useEffect(() => {
+    setRemaining(secondsUntil(until));
+
+    if (!until) return;
+
+    const interval = setInterval(() => {
+      const left = secondsUntil(until);
+
+      setRemaining(left);
+
+      if (left === 0) {
+        clearInterval(interval);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [until]);
+
+  return remaining;
+}
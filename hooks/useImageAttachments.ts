@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useState, type ClipboardEvent, type DragEvent } from 'react';
+import { isImageFile, MAX_IMAGE_ATTACHMENTS, readImageAttachment } from '@/lib/image-attachments';
+import type { ImageAttachment } from '@/types/index';
+
+// Images attached to the prompt being written, added from the file picker, the clipboard or a drop
+export function useImageAttachments() {
+  const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const addFiles = useCallback(
+    async (files: FileList | File[]) => {
+      const images = Array.from(files).filter(isImageFile);
+      const room = MAX_IMAGE_ATTACHMENTS - attachments.length;
+
+      if (images.length === 0) {
+        setAttachmentError('Only PNG, JPEG, GIF and WebP images can be attached');
+        return;
+      }
+
+      try {
+        const read = await Promise.all(images.slice(0, Math.max(room, 0)).map(readImageAttachment));
+
+        setAttachments((current) => [...current, ...read].slice(0, MAX_IMAGE_ATTACHMENTS));
+        setAttachmentError(
+          images.length > room ? `At most ${MAX_IMAGE_ATTACHMENTS} images can be attached to a message` : null,
+        );
+      } catch (error) {
+        setAttachmentError(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [attachments.length],
+  );
+
+  const removeAttachment = useCallback((index: number) => {
+    setAttachments((current) => current.filter((_, i) => i !== index));
+    setAttachmentError(null);
+  }, []);
+
+  // Puts back the images of a message that could not be sent
+  const restoreAttachments = useCallback((images: ImageAttachment[]) => {
+    setAttachments((current) => [...images, ...current].slice(0, MAX_IMAGE_ATTACHMENTS));
+  }, []);
+
+  const clearAttachments = useCallback(() => {
+    setAttachments([]);
+    setAttachmentError(null);
+  }, []);
+
+  // Pasted screenshots become attachments, pasted text is left to the textarea
+  const handlePaste = useCallback(
+    (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData.files).filter(isImageFile);
+
+      if (files.length > 0) {
+        event.preventDefault();
+        addFiles(files);
+      }
+    },
+    [addFiles],
+  );
+
+  const dropHandlers = {
+    onDragOver: (event: DragEvent) => {
+      if (!event.dataTransfer.types.includes('Files')) return;
+
+      event.preventDefault();
+      setIsDragging(true);
+    },
+    onDragLeave: (event: DragEvent) => {
+      // Moving over a child element also fires dragleave on the container
+      if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+        setIsDragging(false);
+      }
+    },
+    onDrop: (event: DragEvent) => {
+      if (!event.dataTransfer.files.length) return;
+
+      event.preventDefault();
+      setIsDragging(false);
+      addFiles(event.dataTransfer.files);
+    },
+  };
+
+  return {
+    attachments,
+    attachmentError,
+    isDragging,
+    addFiles,
+    removeAttachment,
+    restoreAttachments,
+    clearAttachments,
+    handlePaste,
+    dropHandlers,
+  };
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { modelSelectionStore, modelsRevision, setProjectModel, type ModelSelection } from '@/stores/model';
+import type { ModelInfo, ProviderDescription } from '@/types/index';
+
+interface ModelsState {
+  models: ModelInfo[];
+  providers: ProviderDescription[];
+  offline: boolean;
+}
+
+// Share a single request between every picker on the page
+let modelsPromise: Promise<ModelsState> | null = null;
+let modelsPromiseRevision = -1;
+
+const fetchModels = (revision: number) => {
+  if (!modelsPromise || modelsPromiseRevision !== revision) {
+    modelsPromiseRevision = revision;
+    modelsPromise = fetch('/api/models')
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Models API error: ${response.status}`);
+        }
+
+        return response.json() as Promise<ModelsState>;
+      })
+      .catch((error) => {
+        console.error('Error loading models:', error);
+        // Allow the next mount to retry
+        modelsPromise = null;
+        return { models: [], providers: [], offline: true };
+      });
+  }
+
+  return modelsPromise;
+};
+
+export function useModels() {
+  const revision = useStore(modelsRevision);
+  const [state, setState] = useState<ModelsState>({ models: [], providers: [], offline: false });
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchModels(revision).then((result) => {
+      if (!cancelled) {
+        setState(result);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [revision]);
+
+  return { ...state, isLoading };
+}
+
+export function useModelSelection(projectId: string) {
+  const selections = useStore(modelSelectionStore);
+  const selection: ModelSelection | undefined = selections[projectId];
+
+  const setSelection = (next: ModelSelection) => setProjectModel(projectId, next);
+
+  return { selection, setSelection };
+}
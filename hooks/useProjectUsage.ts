@@ -0,0 +1,22 @@
+'use client';
+
+import { useStore } from '@nanostores/react';
+import { projectUsageStore, resetProjectCost, setProjectBudget } from '@/stores/usage';
+
+export function useProjectUsage(projectId: string) {
+  const usages = useStore(projectUsageStore);
+  const usage = usages[projectId];
+
+  const totalCost = usage?.totalCost || 0;
+  const budget = usage?.budget;
+  const hasUnpricedUsage = Boolean(usage?.hasUnpricedUsage);
+
+  return {
+    totalCost,
+    budget,
+    hasUnpricedUsage,
+    budgetExceeded: budget !== undefined && (totalCost >= budget || hasUnpricedUsage),
+    setBudget: (next: number | undefined) => setProjectBudget(projectId, next),
+    resetCost: () => resetProjectCost(projectId),
+  };
+}
@@ -1,15 +1,15 @@
 'use client';
 
 import { useState } from 'react';
-
-interface ProviderInfo {
-  name: string;
-  [key: string]: any;
-}
+import type { ModelRouting } from '@/types/index';
+import { useCountdown } from '@/hooks/useCountdown';
 
 export function usePromptEnhancer() {
   const [enhancingPrompt, setEnhancingPrompt] = useState(false);
   const [promptEnhanced, setPromptEnhanced] = useState(false);
+  // Set when the server rate limits the enhancer, enhancing is blocked until then
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const retryIn = useCountdown(retryAt);
 
   const resetEnhancer = () => {
     setEnhancingPrompt(false);
@@ -19,18 +19,17 @@ export function usePromptEnhancer() {
   const enhancePrompt = async (
     input: string,
     setInput: (value: string) => void,
-    model: string,
-    provider: ProviderInfo,
+    // Overrides the routing settings for this request only
+    modelRouting?: ModelRouting,
   ) => {
-    if (!input.trim()) return;
+    if (!input.trim() || retryIn > 0) return;
     
     setEnhancingPrompt(true);
     setPromptEnhanced(false);
 
     const requestBody = {
       message: input,
-      model,
-      provider,
+      modelRouting,
     };
 
     try {
@@ -42,6 +41,10 @@ export function usePromptEnhancer() {
         body: JSON.stringify(requestBody),
       });
 
+      if (response.status === 429) {
+        setRetryAt(Date.now() + (Number(response.headers.get('Retry-After')) || 60) * 1000);
+      }
+
       if (!response.ok) {
         console.error('Error from enhancer API:', response.status);
         throw new Error(`Enhancer API error: ${response.status}`);
@@ -66,30 +69,11 @@ export function usePromptEnhancer() {
             break;
           }
 
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n');
-          
-          for (const line of lines) {
-            if (line.trim() === '' || !line.startsWith('data: ')) continue;
-            
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-            
-            try {
-              const json = JSON.parse(data);
-              const token = json.choices?.[0]?.delta?.content || '';
-              
-              if (token) {
-                enhancedInput += token;
-                console.log('Enhanced token:', token);
-                
-                // Update input in real-time
-                setInput(enhancedInput);
-              }
-            } catch (error) {
-              console.error('Error parsing JSON from stream:', error);
-            }
-          }
+          // The enhancer streams plain text
+          enhancedInput += decoder.decode(value, { stream: true });
+
+          // Update input in real-time
+          setInput(enhancedInput);
         }
         
         // Final update
@@ -113,5 +97,5 @@ export function usePromptEnhancer() {
     }
   };
 
-  return { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer };
+  return { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer, retryIn };
 } 
\ No newline at end of file
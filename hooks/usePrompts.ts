@@ -0,0 +1,23 @@
+'use client';
+
+import { useStore } from '@nanostores/react';
+import { DEFAULT_PROMPT_ID, PromptLibrary, type PromptDescription } from '@/lib/prompt-library';
+import { customPromptsStore, promptSelectionStore, setProjectPrompt } from '@/stores/prompts';
+
+export function usePromptSelection(projectId: string) {
+  const selections = useStore(promptSelectionStore);
+  const customPrompts = useStore(customPromptsStore);
+
+  const prompts: PromptDescription[] = [
+    ...PromptLibrary.getList(),
+    ...customPrompts.map(({ id, label, description }) => ({ id, label, description: description || 'Custom prompt' })),
+  ];
+
+  // A deleted custom prompt falls back to the default
+  const selectedId = selections[projectId];
+  const promptId = prompts.some((p) => p.id === selectedId) ? selectedId! : DEFAULT_PROMPT_ID;
+
+  const setPromptId = (next: string) => setProjectPrompt(projectId, next);
+
+  return { prompts, customPrompts, promptId, setPromptId };
+}
@@ -0,0 +1,164 @@
+import type { WebContainer } from '@webcontainer/api';
+import ignore from 'ignore';
+import { IGNORE_PATTERNS } from './constants';
+import { WORK_DIR } from './prompt';
+import type { ChatToolName } from '../types/index';
+
+// Caps keep tool results small enough for the model's context window
+const MAX_FILE_CHARS = 50_000;
+const MAX_SEARCH_MATCHES = 100;
+const MAX_COMMAND_OUTPUT_CHARS = 20_000;
+const COMMAND_TIMEOUT_MS = 60 * 1000;
+
+const ig = ignore().add(IGNORE_PATTERNS);
+
+const ANSI_REGEX = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07/g;
+
+// WebContainer paths are relative to the project root, models also send absolute or ./ paths
+const toProjectPath = (path: string) => {
+  const relative = path.trim().replace(new RegExp(`^${WORK_DIR}/?`), '').replace(/^\.?\/+/, '');
+
+  return relative || '.';
+};
+
+const truncate = (text: string, max: number, keep: 'start' | 'end' = 'start') => {
+  if (text.length <= max) {
+    return { text, truncated: false };
+  }
+
+  return { text: keep === 'start' ? text.slice(0, max) : text.slice(-max), truncated: true };
+};
+
+async function readFile(webContainer: WebContainer, path: string) {
+  const content = await webContainer.fs.readFile(toProjectPath(path), 'utf-8');
+  const { text, truncated } = truncate(content, MAX_FILE_CHARS);
+
+  return { path, content: text, truncated };
+}
+
+async function listDirectory(webContainer: WebContainer, path: string) {
+  const entries = await webContainer.fs.readdir(toProjectPath(path), { withFileTypes: true });
+
+  return {
+    path,
+    entries: entries
+      .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+      .sort((a, b) => a.localeCompare(b)),
+  };
+}
+
+// Walks the project like the context selector does, skipping dependencies and build output
+async function collectFiles(webContainer: WebContainer, directory: string, found: string[] = []) {
+  const entries = await webContainer.fs.readdir(directory, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const path = directory === '.' ? entry.name : `${directory}/${entry.name}`;
+
+    if (ig.ignores(entry.isDirectory() ? `${path}/` : path)) continue;
+
+    if (entry.isDirectory()) {
+      await collectFiles(webContainer, path, found);
+    } else {
+      found.push(path);
+    }
+  }
+
+  return found;
+}
+
+async function searchFiles(webContainer: WebContainer, query: string, path?: string) {
+  const needle = query.toLowerCase();
+  const matches: { path: string; line: number; text: string }[] = [];
+  const files = await collectFiles(webContainer, toProjectPath(path || '.'));
+
+  for (const file of files) {
+    let content: string;
+
+    try {
+      content = await webContainer.fs.readFile(file, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const lines = content.split('\n');
+
+    for (let index = 0; index < lines.length; index++) {
+      if (lines[index].toLowerCase().includes(needle)) {
+        matches.push({ path: file, line: index + 1, text: lines[index].trim().slice(0, 300) });
+
+        if (matches.length >= MAX_SEARCH_MATCHES) {
+          return { query, matches, truncated: true };
+        }
+      }
+    }
+  }
+
+  return { query, matches, truncated: false };
+}
+
+async function runCommand(webContainer: WebContainer, command: string) {
+  const child = await webContainer.spawn('jsh', ['-c', command]);
+  let output = '';
+
+  child.output.pipeTo(
+    new WritableStream({
+      write(data) {
+        output += data;
+      },
+    }),
+  );
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), COMMAND_TIMEOUT_MS);
+  });
+
+  const exitCode = await Promise.race([child.exit, timeout]);
+
+  clearTimeout(timer);
+
+  if (exitCode === null) {
+    child.kill();
+  }
+
+  // The end of the output is where errors and summaries are
+  const { text, truncated } = truncate(output.replace(ANSI_REGEX, ''), MAX_COMMAND_OUTPUT_CHARS, 'end');
+
+  return {
+    command,
+    exitCode,
+    timedOut: exitCode === null,
+    output: text,
+    truncated,
+  };
+}
+
+/**
+ * Runs a tool call the model made in tool-calling mode
+ * @param webContainer The project's WebContainer
+ * @param toolName The tool, see createChatTools for their parameters
+ * @param args The arguments the model passed
+ * @returns The result sent back to the model, `{ error }` when the tool failed
+ */
+export async function executeChatTool(
+  webContainer: WebContainer,
+  toolName: ChatToolName,
+  args: Record<string, any>,
+): Promise<unknown> {
+  try {
+    switch (toolName) {
+      case 'readFile':
+        return await readFile(webContainer, String(args.path));
+      case 'listDirectory':
+        return await listDirectory(webContainer, String(args.path || '.'));
+      case 'searchFiles':
+        return await searchFiles(webContainer, String(args.query), args.path ? String(args.path) : undefined);
+      case 'runCommand':
+        return await runCommand(webContainer, String(args.command));
+      default:
+        return { error: `Unknown tool ${toolName}` };
+    }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -1,13 +1,33 @@
-import { Template } from '../types/index';
+import { ModelRouting, Template } from '../types/index';
 
 export const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
 // export const DEFAULT_MODEL = 'google/gemini-2.5-pro-preview-03-25';
 export const DEFAULT_MODEL = 'openai/gpt-4.1';
 
 export const SECONDARY_MODEL = 'google/gemini-2.0-flash-001';
+export const DEFAULT_MAX_OUTPUT_TOKENS = 8000; // Output limit used when a model does not report its own
+export const DEFAULT_CONTEXT_LENGTH = 32000; // Context window assumed when a model does not report its own
 export const GITHUB_REPO_URL = 'https://github.com/thecodacus/bolt-nextjs-shadcn-template.git';
 export const GITHUB_API_BASE_URL = 'https://api.github.com';
 export const MAX_TOKENS_NO_SUMMARY = 8000; // Maximum tokens before requiring chat summary
+
+export type FallbackTask = 'response' | 'summary' | 'context';
+
+// Models (on the default provider) tried in order when a call fails with a rate limit, outage or context-length error.
+// Defaults, MODEL_FALLBACKS_<TASK> (e.g. MODEL_FALLBACKS_RESPONSE) overrides a task's chain
+export const MODEL_FALLBACKS: Record<FallbackTask, string[]> = {
+  response: ['google/gemini-2.5-pro-preview-03-25', 'anthropic/claude-3.7-sonnet'],
+  summary: ['openai/gpt-4o-mini'],
+  context: ['openai/gpt-4o-mini'],
+};
+
+// Stages without an entry follow the model picked for the project (continuation: the response model)
+export const DEFAULT_MODEL_ROUTING: ModelRouting = {
+  summary: { model: SECONDARY_MODEL, provider: 'OpenRouter' },
+  context: { model: SECONDARY_MODEL, provider: 'OpenRouter' },
+  enhancer: { model: 'openai/gpt-4o-mini', provider: 'OpenRouter' },
+};
+
 export const IGNORE_PATTERNS = [
     'node_modules/**',
     '.git/**',
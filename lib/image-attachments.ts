@@ -0,0 +1,62 @@
+import type { ImageAttachment } from '../types/index';
+
+// The formats every vision model accepts
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+export const MAX_IMAGE_ATTACHMENTS = 4;
+const MAX_IMAGE_FILE_BYTES = 10 * 1024 * 1024;
+
+// Providers downscale anything larger anyway, so bigger images only cost upload time
+const MAX_IMAGE_DIMENSION = 1568;
+
+const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be decoded'));
+    image.src = src;
+  });
+
+export const isImageFile = (file: File) => ACCEPTED_IMAGE_TYPES.includes(file.type);
+
+/**
+ * Reads an image file into an attachment, downscaling it when it is larger than the models use
+ * @param file A PNG, JPEG, GIF or WebP file
+ * @returns The attachment, its data URL ready to send to the model
+ */
+export async function readImageAttachment(file: File): Promise<ImageAttachment> {
+  if (!isImageFile(file)) {
+    throw new Error(`${file.name} is not a PNG, JPEG, GIF or WebP image`);
+  }
+
+  if (file.size > MAX_IMAGE_FILE_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_IMAGE_FILE_BYTES / 1024 / 1024} MB`);
+  }
+
+  const dataUrl = await readAsDataUrl(file);
+  const image = await loadImage(dataUrl);
+  const scale = MAX_IMAGE_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight);
+
+  if (scale >= 1) {
+    return { name: file.name, mimeType: file.type, dataUrl };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  // Photos stay JPEG, everything else becomes PNG so screenshots keep sharp text
+  const mimeType = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+
+  return { name: file.name, mimeType, dataUrl: canvas.toDataURL(mimeType, 0.9) };
+}
@@ -0,0 +1,123 @@
+import { getCompactPrompt, getExplainPrompt, getSystemPrompt } from './prompt';
+
+export interface PromptOptions {
+  cwd: string;
+  allowedHtmlElements: string[];
+  modificationTagName: string;
+  supabase?: {
+    isConnected: boolean;
+    hasSelectedProject: boolean;
+    credentials?: {
+      anonKey?: string;
+      supabaseUrl?: string;
+    };
+  };
+}
+
+// A user-defined prompt, stored in the browser and sent along with each request
+export interface CustomPrompt {
+  id: string;
+  label: string;
+  description?: string;
+  content: string;
+}
+
+export interface PromptDescription {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export const DEFAULT_PROMPT_ID = 'default';
+
+// Ids of custom prompts carry this prefix so they never shadow a built-in prompt
+export const CUSTOM_PROMPT_PREFIX = 'custom:';
+
+const TEMPLATE_VARIABLE_REGEX = /\{\{\s*(cwd|allowedHtmlElements|modificationTagName)\s*\}\}/g;
+
+/**
+ * Fills the {{cwd}}, {{allowedHtmlElements}} and {{modificationTagName}} placeholders of a custom prompt
+ */
+export function renderCustomPrompt(content: string, options: PromptOptions): string {
+  return content.replace(TEMPLATE_VARIABLE_REGEX, (_match, name: string) => {
+    switch (name) {
+      case 'cwd':
+        return options.cwd;
+      case 'allowedHtmlElements':
+        return options.allowedHtmlElements.map((tagName) => `<${tagName}>`).join(', ');
+      default:
+        return options.modificationTagName;
+    }
+  });
+}
+
+export class PromptLibrary {
+  static library: Record<string, PromptDescription & { get: (options: PromptOptions) => string }> = {
+    [DEFAULT_PROMPT_ID]: {
+      id: DEFAULT_PROMPT_ID,
+      label: 'Bolt',
+      description: 'The full prompt, builds and edits projects',
+      get: (options) => getSystemPrompt(options.cwd, options.allowedHtmlElements, options.modificationTagName),
+    },
+    compact: {
+      id: 'compact',
+      label: 'Compact',
+      description: 'A shorter prompt for small models with limited context',
+      get: (options) => getCompactPrompt(options.cwd, options.allowedHtmlElements, options.modificationTagName),
+    },
+    explain: {
+      id: 'explain',
+      label: 'Explain only',
+      description: 'Answers questions about the code without changing files',
+      get: (options) => getExplainPrompt(options.cwd, options.allowedHtmlElements, options.modificationTagName),
+    },
+  };
+
+  /**
+   * Lists the built-in prompts for the prompt selector
+   */
+  static getList(): PromptDescription[] {
+    return Object.values(this.library).map(({ id, label, description }) => ({ id, label, description }));
+  }
+
+  /**
+   * Explains why a prompt id can't be used, so the user can be told rather than silently get the default prompt
+   * @param promptId A built-in prompt id or a custom prompt id
+   * @param customPrompt The custom prompt sent with the request
+   * @returns The reason, or undefined when the prompt is available
+   */
+  static getFallbackReason(promptId: string, customPrompt?: CustomPrompt): string | undefined {
+    if (promptId.startsWith(CUSTOM_PROMPT_PREFIX)) {
+      return customPrompt?.id === promptId && customPrompt.content.trim()
+        ? undefined
+        : 'The selected custom prompt was not found, the default prompt was used instead.';
+    }
+
+    // Own keys only, ids like `toString` come from the request body and must not find inherited properties
+    return Object.hasOwn(this.library, promptId) ? undefined : `Unknown prompt "${promptId}", the default prompt was used instead.`;
+  }
+
+  /**
+   * Builds the system prompt for a prompt id, falling back to the default prompt for unknown ids
+   * @param promptId A built-in prompt id or a custom prompt id
+   * @param options Values interpolated into the prompt
+   * @param customPrompt The custom prompt sent with the request, used when promptId refers to it
+   * @returns The system prompt
+   */
+  static getPromptFromLibrary(promptId: string, options: PromptOptions, customPrompt?: CustomPrompt): string {
+    const fallbackReason = this.getFallbackReason(promptId, customPrompt);
+
+    if (fallbackReason) {
+      console.warn(`Prompt "${promptId}": ${fallbackReason}`);
+      return this.library[DEFAULT_PROMPT_ID].get(options);
+    }
+
+    if (promptId.startsWith(CUSTOM_PROMPT_PREFIX)) {
+      return renderCustomPrompt(customPrompt!.content, options);
+    }
+
+    return Object.hasOwn(this.library, promptId)
+      ? this.library[promptId].get(options)
+      : this.library[DEFAULT_PROMPT_ID].get(options);
+  }
+}
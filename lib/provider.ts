@@ -1,14 +1,23 @@
 import type { IProviderSetting, ModelInfo, Env } from '@/types/index';
+import { DEFAULT_MODEL, DEFAULT_MAX_OUTPUT_TOKENS, DEFAULT_CONTEXT_LENGTH } from '@/lib/constants';
 import type { LanguageModelV1 } from 'ai';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createHash } from 'crypto';
+import { ReplayLanguageModel, getReplayMode } from '@/lib/server/replay-model';
+import fixtureModels from '@/lib/server/fixtures/models.json';
 
 interface OpenRouterModel {
   name: string;
   id: string;
   context_length: number;
   pricing: {
-    prompt: number;
-    completion: number;
+    prompt: number | string;
+    completion: number | string;
+  };
+  top_provider?: {
+    max_completion_tokens?: number | null;
   };
 }
 
@@ -16,12 +25,53 @@ interface OpenRouterModelsResponse {
   data: OpenRouterModel[];
 }
 
+interface OpenAILikeModelsResponse {
+  data: { id: string }[];
+}
+
+interface AnthropicModelsResponse {
+  data: { id: string; display_name: string }[];
+}
+
+interface OllamaTagsResponse {
+  models: { name: string; details?: { parameter_size?: string } }[];
+}
+
+export interface ResolvedModel {
+  name: string;
+  maxTokenAllowed: number;
+  contextLength: number;
+  // Set when the requested model was unknown and the default was used instead
+  fallbackFrom?: string;
+}
+
+// How long a provider's merged model list is reused before refetching
+const MODEL_LIST_TTL = 5 * 60 * 1000;
+// A catalog that could not be fetched is retried sooner, but not on every request
+const FAILED_MODEL_LIST_TTL = 30 * 1000;
+
+// Fetches a provider's model catalog, a failed request reports its status instead of being parsed as a list
+async function fetchModelCatalog<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status} ${response.statusText}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+// Strip trailing slashes so endpoint paths can be appended safely
+const trimSlashes = (url?: string) => url?.replace(/\/+$/, '') || undefined;
+
 // Simple abstract BaseProvider class implementation
 export abstract class BaseProvider {
   abstract name: string;
   abstract getApiKeyLink: string;
   abstract config: {
     apiTokenKey: string;
+    baseUrlKey?: string;
+    baseUrl?: string;
   };
   abstract staticModels: ModelInfo[];
   abstract getDynamicModels(
@@ -35,6 +85,114 @@ export abstract class BaseProvider {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
   }): LanguageModelV1;
+
+  private cachedModels = new Map<string, { models: ModelInfo[]; expiresAt: number }>();
+
+  /**
+   * Returns the static models merged with the dynamic catalog, cached for MODEL_LIST_TTL
+   * @returns All models known for this provider
+   */
+  async getModelList(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv: Record<string, string> = {},
+  ): Promise<ModelInfo[]> {
+    let credentials: { baseUrl?: string; apiKey?: string };
+
+    try {
+      credentials = this.getProviderBaseUrlAndKey({ apiKeys, providerSettings: settings, serverEnv });
+    } catch (error) {
+      console.warn(`Not listing ${this.name} models:`, error instanceof Error ? error.message : error);
+      return this.staticModels;
+    }
+
+    // Users can bring their own endpoint and key, so cache per credential set
+    const { baseUrl, apiKey } = credentials;
+    const cacheKey = createHash('sha256').update(`${baseUrl || ''}|${apiKey || ''}`).digest('hex');
+    const cached = this.cachedModels.get(cacheKey);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.models;
+    }
+
+    const dynamicModels = await this.getDynamicModels(apiKeys, settings, serverEnv);
+    const staticModelNames = this.staticModels.map((m) => m.name);
+    const models = [...this.staticModels, ...dynamicModels.filter((m) => !staticModelNames.includes(m.name))];
+
+    this.cachedModels.set(cacheKey, {
+      models,
+      expiresAt: Date.now() + (dynamicModels.length > 0 ? MODEL_LIST_TTL : FAILED_MODEL_LIST_TTL),
+    });
+
+    return models;
+  }
+
+  /**
+   * Resolves the base URL, API key and organization for this provider.
+   * Values from the user's settings cookies take precedence over the server environment. The server's key is only
+   * sent to the server's endpoint: a user who points the provider somewhere else has to bring their own key.
+   * The server calls the base URL itself, so a user's base URL must be the server's or be listed in
+   * ALLOWED_PROVIDER_BASE_URLS, otherwise any client could make it reach internal addresses
+   * @throws When the user's base URL is not allowed
+   */
+  protected getProviderBaseUrlAndKey(options: {
+    apiKeys?: Record<string, string>;
+    providerSettings?: IProviderSetting;
+    serverEnv?: Env;
+  }): { baseUrl?: string; apiKey?: string; organization?: string } {
+    const { apiKeys, providerSettings, serverEnv = {} } = options;
+    const { apiTokenKey, baseUrlKey, baseUrl: defaultBaseUrl } = this.config;
+    const serverBaseUrl = trimSlashes((baseUrlKey && (serverEnv[baseUrlKey] || process.env[baseUrlKey])) || defaultBaseUrl);
+    const userBaseUrl = trimSlashes(providerSettings?.baseUrl);
+    const allowedBaseUrls = (serverEnv.ALLOWED_PROVIDER_BASE_URLS || process.env.ALLOWED_PROVIDER_BASE_URLS || '')
+      .split(',')
+      .map((url: string) => trimSlashes(url.trim()))
+      .filter(Boolean);
+
+    if (userBaseUrl && userBaseUrl !== serverBaseUrl && !allowedBaseUrls.includes(userBaseUrl)) {
+      throw new Error(
+        `Base URL ${userBaseUrl} is not allowed for ${this.name} provider. Remove it in Settings or ask the server operator to add it to ALLOWED_PROVIDER_BASE_URLS.`,
+      );
+    }
+
+    const baseUrl = userBaseUrl || serverBaseUrl;
+    const userApiKey = apiKeys?.[this.name] || providerSettings?.apiToken;
+    const serverApiKey = baseUrl === serverBaseUrl ? serverEnv[apiTokenKey] || process.env[apiTokenKey] : undefined;
+
+    return { baseUrl, apiKey: userApiKey || serverApiKey, organization: providerSettings?.organization };
+  }
+
+  /**
+   * Creates the model instance used for calls, wrapped for recording or replaced by a replay when LLM_REPLAY_MODE is set
+   * @returns A model ready to pass to streamText or generateText
+   */
+  createModelInstance(options: {
+    model: string;
+    serverEnv: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const mode = getReplayMode();
+
+    // Replays never reach the provider, so they work without keys or network
+    if (mode === 'replay') {
+      return new ReplayLanguageModel({ mode, provider: this.name, modelId: options.model });
+    }
+
+    const model = this.getModelInstance(options);
+
+    if (mode === 'record') {
+      return new ReplayLanguageModel({ mode, provider: this.name, modelId: options.model, model });
+    }
+
+    return model;
+  }
+
+  protected missingApiKeyError() {
+    return new Error(
+      `Missing API key for ${this.name} provider. Add your key in Settings or set ${this.config.apiTokenKey} in your .env.local file.`,
+    );
+  }
 }
 
 export default class OpenRouterProvider extends BaseProvider {
@@ -98,21 +256,25 @@ export default class OpenRouterProvider extends BaseProvider {
     _serverEnv: Record<string, string> = {},
   ): Promise<ModelInfo[]> {
     try {
-      const response = await fetch('https://openrouter.ai/api/v1/models', {
+      const data = await fetchModelCatalog<OpenRouterModelsResponse>('https://openrouter.ai/api/v1/models', {
         headers: {
           'Content-Type': 'application/json',
         },
       });
 
-      const data = (await response.json()) as OpenRouterModelsResponse;
-
       return data.data
         .sort((a, b) => a.name.localeCompare(b.name))
         .map((m) => ({
           name: m.id,
-          label: `${m.name} - in:$${(m.pricing.prompt * 1_000_000).toFixed(2)} out:$${(m.pricing.completion * 1_000_000).toFixed(2)} - context ${Math.floor(m.context_length / 1000)}k`,
+          label: m.name,
           provider: this.name,
-          maxTokenAllowed: 8000,
+          maxTokenAllowed: m.top_provider?.max_completion_tokens || DEFAULT_MAX_OUTPUT_TOKENS,
+          contextLength: m.context_length,
+          // The catalog reports prices as decimal strings
+          pricing: {
+            prompt: Number(m.pricing.prompt),
+            completion: Number(m.pricing.completion),
+          },
         }));
     } catch (error) {
       console.error('Error getting OpenRouter models:', error);
@@ -126,13 +288,15 @@ export default class OpenRouterProvider extends BaseProvider {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
   }): LanguageModelV1 {
-    const { model } = options;
-
-    // Get API key directly from process.env
-    const apiKey = process.env[this.config.apiTokenKey];
+    const { model, serverEnv, apiKeys, providerSettings } = options;
+    const { apiKey } = this.getProviderBaseUrlAndKey({
+      apiKeys,
+      providerSettings: providerSettings?.[this.name],
+      serverEnv,
+    });
 
     if (!apiKey) {
-      throw new Error(`Missing API key for ${this.name} provider. Please set ${this.config.apiTokenKey} in your .env.local file.`);
+      throw this.missingApiKeyError();
     }
 
     const openRouter = createOpenRouter({
@@ -144,5 +308,333 @@ export default class OpenRouterProvider extends BaseProvider {
   }
 }
 
+export class OpenAILikeProvider extends BaseProvider {
+  name = 'OpenAILike';
+  getApiKeyLink = '';
+
+  config = {
+    apiTokenKey: 'OPENAI_LIKE_API_KEY',
+    baseUrlKey: 'OPENAI_LIKE_API_BASE_URL',
+  };
+
+  staticModels: ModelInfo[] = [];
+
+  async getDynamicModels(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv: Record<string, string> = {},
+  ): Promise<ModelInfo[]> {
+    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey({ apiKeys, providerSettings: settings, serverEnv });
+
+    if (!baseUrl) {
+      return [];
+    }
+
+    try {
+      const data = await fetchModelCatalog<OpenAILikeModelsResponse>(`${baseUrl}/models`, {
+        headers: {
+          Authorization: `Bearer ${apiKey || ''}`,
+        },
+      });
+
+      return data.data.map((m) => ({
+        name: m.id,
+        label: m.id,
+        provider: this.name,
+        maxTokenAllowed: 8000,
+      }));
+    } catch (error) {
+      console.error('Error getting OpenAILike models:', error);
+      return [];
+    }
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const { model, serverEnv, apiKeys, providerSettings } = options;
+    const { baseUrl, apiKey, organization } = this.getProviderBaseUrlAndKey({
+      apiKeys,
+      providerSettings: providerSettings?.[this.name],
+      serverEnv,
+    });
+
+    if (!baseUrl) {
+      throw new Error(
+        `Missing base URL for ${this.name} provider. Add it in Settings or set ${this.config.baseUrlKey} in your .env.local file.`,
+      );
+    }
+
+    if (!apiKey) {
+      throw this.missingApiKeyError();
+    }
+
+    const openai = createOpenAI({
+      baseURL: baseUrl,
+      apiKey,
+      organization,
+    });
+
+    return openai(model);
+  }
+}
+
+export class AnthropicProvider extends BaseProvider {
+  name = 'Anthropic';
+  getApiKeyLink = 'https://console.anthropic.com/settings/keys';
+
+  config = {
+    apiTokenKey: 'ANTHROPIC_API_KEY',
+  };
+
+  staticModels: ModelInfo[] = [
+    {
+      name: 'claude-3-7-sonnet-latest',
+      label: 'Claude 3.7 Sonnet',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+    },
+    {
+      name: 'claude-3-5-sonnet-latest',
+      label: 'Claude 3.5 Sonnet',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+    },
+    {
+      name: 'claude-3-5-haiku-latest',
+      label: 'Claude 3.5 Haiku',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+    },
+  ];
+
+  async getDynamicModels(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv: Record<string, string> = {},
+  ): Promise<ModelInfo[]> {
+    const { apiKey } = this.getProviderBaseUrlAndKey({ apiKeys, providerSettings: settings, serverEnv });
+
+    if (!apiKey) {
+      return [];
+    }
+
+    try {
+      const data = await fetchModelCatalog<AnthropicModelsResponse>('https://api.anthropic.com/v1/models', {
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+      });
+      const staticModelNames = this.staticModels.map((m) => m.name);
+
+      return data.data
+        .filter((m) => !staticModelNames.includes(m.id))
+        .map((m) => ({
+          name: m.id,
+          label: m.display_name,
+          provider: this.name,
+          maxTokenAllowed: 8000,
+        }));
+    } catch (error) {
+      console.error('Error getting Anthropic models:', error);
+      return [];
+    }
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const { model, serverEnv, apiKeys, providerSettings } = options;
+    const { apiKey } = this.getProviderBaseUrlAndKey({
+      apiKeys,
+      providerSettings: providerSettings?.[this.name],
+      serverEnv,
+    });
+
+    if (!apiKey) {
+      throw this.missingApiKeyError();
+    }
+
+    const anthropic = createAnthropic({
+      apiKey,
+    });
+
+    return anthropic(model);
+  }
+}
+
+export class OllamaProvider extends BaseProvider {
+  name = 'Ollama';
+  getApiKeyLink = 'https://ollama.com/download';
+
+  config = {
+    apiTokenKey: 'OLLAMA_API_KEY',
+    baseUrlKey: 'OLLAMA_API_BASE_URL',
+    baseUrl: 'http://127.0.0.1:11434',
+  };
+
+  staticModels: ModelInfo[] = [];
+
+  async getDynamicModels(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv: Record<string, string> = {},
+  ): Promise<ModelInfo[]> {
+    const { baseUrl } = this.getProviderBaseUrlAndKey({ apiKeys, providerSettings: settings, serverEnv });
+
+    try {
+      const data = await fetchModelCatalog<OllamaTagsResponse>(`${baseUrl}/api/tags`);
+
+      return data.models.map((m) => ({
+        name: m.name,
+        label: `${m.name}${m.details?.parameter_size ? ` (${m.details.parameter_size})` : ''}`,
+        provider: this.name,
+        maxTokenAllowed: 8000,
+      }));
+    } catch (error) {
+      console.error('Error getting Ollama models:', error);
+      return [];
+    }
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const { model, serverEnv, apiKeys, providerSettings } = options;
+    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey({
+      apiKeys,
+      providerSettings: providerSettings?.[this.name],
+      serverEnv,
+    });
+
+    // Ollama exposes an OpenAI-compatible API and does not require a key
+    const ollama = createOpenAI({
+      baseURL: `${baseUrl}/v1`,
+      apiKey: apiKey || 'ollama',
+    });
+
+    return ollama(model);
+  }
+}
+
 // Create an instance of the default provider
-export const DEFAULT_PROVIDER = new OpenRouterProvider();
\ No newline at end of file
+export const DEFAULT_PROVIDER = new OpenRouterProvider();
+
+// All providers that can be selected with the [Provider: X] message tag
+export const PROVIDER_LIST: BaseProvider[] = [
+  DEFAULT_PROVIDER,
+  new OpenAILikeProvider(),
+  new AnthropicProvider(),
+  new OllamaProvider(),
+];
+
+/**
+ * Looks up a provider by name, falling back to the default provider
+ * @param name The provider name, as sent in the [Provider: X] tag
+ * @returns The matching provider, or DEFAULT_PROVIDER if none matches
+ */
+export function getProvider(name?: string): BaseProvider {
+  if (!name) {
+    return DEFAULT_PROVIDER;
+  }
+
+  const provider = PROVIDER_LIST.find((p) => p.name.toLowerCase() === name.toLowerCase());
+
+  if (!provider) {
+    console.warn(`Unknown provider "${name}", falling back to ${DEFAULT_PROVIDER.name}`);
+    return DEFAULT_PROVIDER;
+  }
+
+  return provider;
+}
+
+/**
+ * Lists the models a provider offers for a request. This is the one place the bundled fixture catalog is merged in,
+ * so the model picker and the chat route agree on which models exist
+ * @param options The provider and the credentials used to fetch its catalog
+ * @returns The provider's models, and whether the default provider's catalog was unreachable and the fixture used
+ */
+export async function getAvailableModels(options: {
+  provider: BaseProvider;
+  serverEnv?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+}): Promise<{ models: ModelInfo[]; offline: boolean }> {
+  const { provider, serverEnv, apiKeys, providerSettings } = options;
+  // Recorded and replayed runs must resolve models the same way every time, without the network
+  const forceOffline = process.env.MODELS_OFFLINE === 'true' || getReplayMode() !== undefined;
+  const models = forceOffline
+    ? provider.staticModels
+    : await provider.getModelList(apiKeys, providerSettings?.[provider.name], serverEnv);
+
+  if (provider !== DEFAULT_PROVIDER) {
+    return { models, offline: forceOffline };
+  }
+
+  // The default provider's catalog is public, so an empty dynamic list means we are offline
+  const offline = forceOffline || models.length <= DEFAULT_PROVIDER.staticModels.length;
+
+  if (!offline) {
+    return { models, offline };
+  }
+
+  const knownNames = models.map((m) => m.name);
+
+  return {
+    models: [...models, ...(fixtureModels as ModelInfo[]).filter((m) => !knownNames.includes(m.name))],
+    offline,
+  };
+}
+
+/**
+ * Checks a model id against the provider's model list, falling back to the default model if unknown
+ * @param options The requested model, its provider and the credentials used to fetch the model list
+ * @returns The model to use, its maximum output tokens and its context window
+ */
+export async function resolveModel(options: {
+  model: string;
+  provider: BaseProvider;
+  serverEnv?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+}): Promise<ResolvedModel> {
+  const { model, provider } = options;
+  const { models: modelList } = await getAvailableModels(options);
+  const modelDetails = modelList.find((m) => m.name === model);
+
+  if (modelDetails) {
+    return {
+      name: modelDetails.name,
+      maxTokenAllowed: modelDetails.maxTokenAllowed,
+      contextLength: modelDetails.contextLength || DEFAULT_CONTEXT_LENGTH,
+    };
+  }
+
+  // Without a model list (e.g. a local endpoint that is still starting) we cannot verify the id
+  if (modelList.length === 0) {
+    return { name: model, maxTokenAllowed: DEFAULT_MAX_OUTPUT_TOKENS, contextLength: DEFAULT_CONTEXT_LENGTH };
+  }
+
+  const defaultModel =
+    modelList.find((m) => m.name === DEFAULT_MODEL) || (provider === DEFAULT_PROVIDER ? undefined : modelList[0]);
+  const fallbackName = defaultModel?.name || DEFAULT_MODEL;
+
+  console.warn(`Model "${model}" is not available on ${provider.name}, falling back to "${fallbackName}"`);
+
+  return {
+    name: fallbackName,
+    maxTokenAllowed: defaultModel?.maxTokenAllowed || DEFAULT_MAX_OUTPUT_TOKENS,
+    contextLength: defaultModel?.contextLength || DEFAULT_CONTEXT_LENGTH,
+    fallbackFrom: model,
+  };
+}
@@ -0,0 +1,99 @@
+import { APICallError, LoadAPIKeyError } from 'ai';
+import { classifyProviderError } from './model-fallback';
+import type { ChatError, ChatErrorCode, PipelineStage } from '../../types/index';
+
+// Matches the message of BaseProvider.missingApiKeyError
+const MISSING_API_KEY_PATTERN = /missing api key/i;
+
+// Matches the error of BaseProvider.getProviderBaseUrlAndKey for a base URL outside ALLOWED_PROVIDER_BASE_URLS
+const DISALLOWED_BASE_URL_PATTERN = /^base url .* is not allowed/i;
+
+// Thrown for failures the chat route detects itself, the code travels to the client unchanged
+export class ChatRouteError extends Error {
+  constructor(
+    readonly code: ChatErrorCode,
+    message: string,
+    readonly retryable = false,
+  ) {
+    super(message);
+    this.name = 'ChatRouteError';
+  }
+}
+
+const HTTP_STATUS: Record<ChatErrorCode, number> = {
+  'missing-api-key': 401,
+  'rate-limited': 429,
+  'context-too-long': 413,
+  'provider-unavailable': 502,
+  'max-segments': 500,
+  'invalid-request': 400,
+  'budget-exceeded': 402,
+  unknown: 500,
+};
+
+/**
+ * Maps any error thrown while answering a chat request to the typed error sent to the client
+ * @param error The error from a model call or the route itself
+ * @param stage The pipeline stage that was running
+ * @returns The typed error
+ */
+export function toChatError(error: unknown, stage?: PipelineStage): ChatError {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ChatRouteError) {
+    return { code: error.code, message, retryable: error.retryable, stage };
+  }
+
+  if (DISALLOWED_BASE_URL_PATTERN.test(message)) {
+    return { code: 'invalid-request', message, retryable: false, stage };
+  }
+
+  if (
+    LoadAPIKeyError.isInstance(error) ||
+    MISSING_API_KEY_PATTERN.test(message) ||
+    (APICallError.isInstance(error) && (error.statusCode === 401 || error.statusCode === 403))
+  ) {
+    return { code: 'missing-api-key', message, retryable: false, stage };
+  }
+
+  const kind = classifyProviderError(error);
+
+  if (kind === 'next-model') {
+    return { code: 'context-too-long', message, retryable: false, stage };
+  }
+
+  if (kind === 'retry') {
+    if (APICallError.isInstance(error) && error.statusCode === 429) {
+      const retryAfter = Number(error.responseHeaders?.['retry-after']);
+
+      return {
+        code: 'rate-limited',
+        message,
+        retryable: true,
+        stage,
+        ...(retryAfter > 0 && { retryAfter: Math.ceil(retryAfter) }),
+      };
+    }
+
+    return { code: 'provider-unavailable', message, retryable: true, stage };
+  }
+
+  // fetch reports an unreachable provider as a TypeError
+  if (error instanceof TypeError && /fetch failed|network/i.test(message)) {
+    return { code: 'provider-unavailable', message, retryable: true, stage };
+  }
+
+  return { code: 'unknown', message, retryable: false, stage };
+}
+
+/**
+ * Builds the JSON response for a chat request that failed before streaming started
+ */
+export function chatErrorResponse(error: unknown, stage?: PipelineStage): Response {
+  const chatError = toChatError(error, stage);
+
+  return Response.json(chatError, {
+    status: HTTP_STATUS[chatError.code],
+    headers: chatError.retryAfter ? { 'Retry-After': String(chatError.retryAfter) } : undefined,
+  });
+}
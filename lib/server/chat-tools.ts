@@ -0,0 +1,104 @@
+import { tool, type ToolSet } from 'ai';
+import { z } from 'zod';
+import { waitForToolResult } from './tool-bridge';
+import type { ChatToolName } from '../../types/index';
+
+// Model calls per response segment in tool-calling mode, each tool round trip takes one
+export const MAX_TOOL_STEPS = 12;
+
+export interface ToolProgressEvent {
+  toolCallId: string;
+  toolName: ChatToolName;
+  status: 'in-progress' | 'complete';
+  message: string;
+}
+
+interface ChatToolsOptions {
+  generationId: string;
+  // Offers runCommand besides the read-only tools, the user opts in to it separately
+  allowCommands?: boolean;
+  abortSignal?: AbortSignal;
+  // Reports each call, so the client can show what the model is looking at
+  onToolProgress?: (event: ToolProgressEvent) => void;
+}
+
+const describeToolCall = (toolName: ChatToolName, args: Record<string, any>) => {
+  switch (toolName) {
+    case 'readFile':
+      return `Reading ${args.path}`;
+    case 'listDirectory':
+      return `Listing ${args.path || '.'}`;
+    case 'searchFiles':
+      return `Searching for "${args.query}"`;
+    case 'runCommand':
+      return `Running ${args.command}`;
+  }
+};
+
+/**
+ * Builds the tools offered to the model in tool-calling mode. They all run in the browser's WebContainer:
+ * the call reaches the client as a tool call part of the data stream and the result comes back through
+ * `POST /api/chat/[generationId]/tools`
+ * @returns The tool set for streamText
+ */
+export function createChatTools({
+  generationId,
+  allowCommands,
+  abortSignal,
+  onToolProgress,
+}: ChatToolsOptions): ToolSet {
+  const browserTool = <P extends z.ZodTypeAny>(toolName: ChatToolName, description: string, parameters: P) =>
+    tool({
+      description,
+      parameters,
+      execute: async (args: z.infer<P>, { toolCallId }) => {
+        const message = describeToolCall(toolName, args);
+
+        onToolProgress?.({ toolCallId, toolName, status: 'in-progress', message });
+
+        try {
+          return await waitForToolResult(generationId, toolCallId, abortSignal);
+        } finally {
+          onToolProgress?.({ toolCallId, toolName, status: 'complete', message });
+        }
+      },
+    });
+
+  const tools: ToolSet = {
+    readFile: browserTool(
+      'readFile',
+      'Read the current content of a project file. Use it before changing a file you have not seen.',
+      z.object({
+        path: z.string().describe('Path of the file, relative to the project root'),
+      }),
+    ),
+    listDirectory: browserTool(
+      'listDirectory',
+      'List the files and folders of a project directory.',
+      z.object({
+        path: z.string().describe('Path of the directory, relative to the project root, "." for the root'),
+      }),
+    ),
+    searchFiles: browserTool(
+      'searchFiles',
+      'Search the project files for a text, returns the matching lines with their file and line number.',
+      z.object({
+        query: z.string().min(1).describe('Text to look for, case-insensitive'),
+        path: z.string().optional().describe('Only search below this directory'),
+      }),
+    ),
+  };
+
+  if (allowCommands) {
+    tools.runCommand = browserTool(
+      'runCommand',
+      'Run a shell command in the project directory and get its exit code and output. ' +
+        'Use it to check the result of your changes, e.g. a type check or the tests. Do not start dev servers.',
+      z.object({
+        command: z.string().min(1).describe('The command line to run'),
+      }),
+    );
+  }
+
+  return tools;
+}
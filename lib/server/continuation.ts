@@ -0,0 +1,218 @@
+import type { StreamTextTransform, TextStreamPart, ToolSet } from 'ai';
+import { CONTINUE_PROMPT, stripIndents } from '../prompt';
+
+// Only the end of the previous segments is compared against the start of a continuation
+const SEAM_WINDOW_CHARS = 20_000;
+
+// Shorter overlaps are too likely to be legitimate repeats, like a closing brace
+const MIN_OVERLAP_CHARS = 16;
+
+const ACTION_OPEN_REGEX = /<boltAction\b([^>]*)>/g;
+const ARTIFACT_OPEN_REGEX = /<boltArtifact\b[^>]*>/g;
+
+export interface OpenAction {
+  type: string;
+  filePath?: string;
+  // Text written inside the action so far
+  content: string;
+  // 1-based line the cut happened on
+  line: number;
+  // Start of that line up to the cut, empty when the cut fell right after a newline
+  partialLine: string;
+  // The complete line before the cut, to anchor the model when the partial line is empty
+  previousLine?: string;
+}
+
+const readAttribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`${name}="([^"]*)"`))?.[1];
+
+const lastMatch = (text: string, regex: RegExp) => {
+  let last: RegExpExecArray | undefined;
+
+  for (const match of Array.from(text.matchAll(regex))) {
+    last = match as RegExpExecArray;
+  }
+
+  return last;
+};
+
+/**
+ * Finds the `<boltAction>` a response was cut off in
+ * @param text The response so far, across all segments
+ * @returns The open action, undefined when the response stopped outside of one
+ */
+export function findOpenAction(text: string): OpenAction | undefined {
+  const open = lastMatch(text, ACTION_OPEN_REGEX);
+
+  if (!open || open.index === undefined) {
+    return undefined;
+  }
+
+  const contentStart = open.index + open[0].length;
+
+  if (text.indexOf('</boltAction>', contentStart) !== -1) {
+    return undefined;
+  }
+
+  const content = text.slice(contentStart);
+  const lines = content.split('\n');
+
+  return {
+    type: readAttribute(open[1], 'type') || 'file',
+    filePath: readAttribute(open[1], 'filePath'),
+    content,
+    line: lines.length,
+    partialLine: lines[lines.length - 1],
+    previousLine: lines.length > 1 ? lines[lines.length - 2] : undefined,
+  };
+}
+
+const isArtifactOpen = (text: string) => {
+  const open = lastMatch(text, ARTIFACT_OPEN_REGEX);
+
+  return !!open && text.indexOf('</boltArtifact>', open.index) === -1;
+};
+
+/**
+ * Builds the user turn that asks the model to continue a response that hit its output limit
+ * @param text The response so far, across all segments
+ * @returns The prompt, pointing at the exact file and line when the cut happened inside an action
+ */
+export function createContinuationPrompt(text: string): string {
+  const action = findOpenAction(text);
+
+  if (!action) {
+    return isArtifactOpen(text)
+      ? `${CONTINUE_PROMPT}\nYou are inside an open <boltArtifact>, do not open it again.`
+      : CONTINUE_PROMPT;
+  }
+
+  const target = action.type === 'file' && action.filePath ? `the file ${action.filePath}` : `a ${action.type} action`;
+  const anchor = action.partialLine
+    ? `Line ${action.line} currently ends with:\n<cut>${action.partialLine}</cut>\nContinue that line directly after the last character, without repeating it.`
+    : `The cut is at the start of line ${action.line}${
+        action.previousLine !== undefined ? `, right after the line:\n<cut>${action.previousLine}</cut>\n` : '. '
+      }Continue with line ${action.line}.`;
+
+  // The anchor is appended as is, stripIndents would trim the code's indentation
+  const instructions = stripIndents`
+    ${CONTINUE_PROMPT}
+    Your response was cut off while writing ${target}, inside its open <boltAction> tag.
+    Do NOT open the <boltArtifact> or <boltAction> tags again and do NOT start the file over.
+    Output only the rest of the content, then close the action with </boltAction> and carry on with the response.
+  `;
+
+  return `${instructions}\n${anchor}`;
+}
+
+/**
+ * Describes a continuation for the progress annotation
+ * @param text The response so far, across all segments
+ */
+export function describeContinuation(text: string): string {
+  const action = findOpenAction(text);
+
+  if (action?.type === 'file' && action.filePath) {
+    return `Continuing ${action.filePath} from line ${action.line}`;
+  }
+
+  return 'Continuing response';
+}
+
+// Length of the longest start of `head` that `tail` ends with
+function findOverlap(tail: string, head: string): number {
+  for (let length = Math.min(tail.length, head.length); length >= MIN_OVERLAP_CHARS; length--) {
+    if (tail.endsWith(head.slice(0, length))) {
+      return length;
+    }
+  }
+
+  return 0;
+}
+
+// Drops an opening tag the model repeated although the element is still open
+function stripReopenedTag(previous: string, head: string): string {
+  const leading = head.match(/^\s*(<boltArtifact\b[^>]*>|<boltAction\b([^>]*)>)/);
+
+  if (!leading) {
+    return head;
+  }
+
+  const action = findOpenAction(previous);
+  const reopensAction =
+    leading[2] !== undefined &&
+    !!action &&
+    readAttribute(leading[2], 'type') === action.type &&
+    readAttribute(leading[2], 'filePath') === action.filePath;
+  const reopensArtifact = leading[2] === undefined && isArtifactOpen(previous);
+
+  return reopensAction || reopensArtifact ? head.slice(leading[0].length) : head;
+}
+
+/**
+ * Stream transform for a continuation segment: holds back its first text until it is clear whether the model
+ * repeated the end of the previous segments or reopened their tags, and drops that overlap
+ * @param previous The response so far, across all segments
+ */
+export function stitchContinuation<TOOLS extends ToolSet>(previous: string): StreamTextTransform<TOOLS> {
+  const tail = previous.slice(-SEAM_WINDOW_CHARS);
+
+  return () => {
+    let buffer = '';
+    let stitched = false;
+
+    const resolve = (controller: TransformStreamDefaultController<TextStreamPart<TOOLS>>, final: boolean) => {
+      let head = buffer;
+
+      // Keep holding back while the text could still be a repeat of what came before
+      while (true) {
+        const stripped = stripReopenedTag(previous, head);
+
+        if (stripped === head) break;
+
+        head = stripped;
+      }
+
+      if (!final && tail.includes(head)) {
+        buffer = head;
+        return;
+      }
+
+      const text = head.slice(findOverlap(tail, head));
+
+      stitched = true;
+      buffer = '';
+
+      if (text) {
+        controller.enqueue({ type: 'text-delta', textDelta: text });
+      }
+    };
+
+    return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+      transform(part, controller) {
+        if (stitched) {
+          controller.enqueue(part);
+          return;
+        }
+
+        if (part.type === 'text-delta') {
+          buffer += part.textDelta;
+          resolve(controller, false);
+          return;
+        }
+
+        // Anything but text ends the seam, so the buffered text keeps its place in the stream
+        if (buffer) {
+          resolve(controller, true);
+        }
+
+        controller.enqueue(part);
+      },
+      flush(controller) {
+        if (!stitched && buffer) {
+          resolve(controller, true);
+        }
+      },
+    });
+  };
+}
@@ -0,0 +1,36 @@
+import type { LanguageModelUsage } from 'ai';
+import { getAvailableModels, type BaseProvider } from '../provider';
+import type { Env, IProviderSetting, ModelInfo } from '../../types/index';
+
+/**
+ * Looks up a model's per-token pricing in its provider's catalog
+ * @returns The pricing, or undefined when the provider does not publish it
+ */
+export async function getModelPricing(options: {
+  model: string;
+  provider: BaseProvider;
+  serverEnv?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+}): Promise<ModelInfo['pricing']> {
+  const { models } = await getAvailableModels(options);
+
+  return models.find((m) => m.name === options.model)?.pricing;
+}
+
+/**
+ * Converts token usage into a dollar cost
+ * @param usage Prompt and completion tokens of one model call
+ * @param pricing USD per token for the model that answered
+ * @returns The cost in USD, or undefined when the pricing is unknown
+ */
+export function calculateCost(
+  usage: Pick<LanguageModelUsage, 'promptTokens' | 'completionTokens'>,
+  pricing: ModelInfo['pricing'],
+): number | undefined {
+  if (!pricing) {
+    return undefined;
+  }
+
+  return (usage.promptTokens || 0) * pricing.prompt + (usage.completionTokens || 0) * pricing.completion;
+}
@@ -1,8 +1,9 @@
 import { generateText, type CoreTool, type GenerateTextResult, type Message } from 'ai';
 import { SECONDARY_MODEL } from '../constants';
-import { DEFAULT_PROVIDER } from '../provider';
-import { extractCurrentContext, extractPropertiesFromMessage, simplifyBoltActions } from './serverUtils';
-import type { Env, IProviderSetting } from '@/types/index';
+import { DEFAULT_PROVIDER, getProvider } from '../provider';
+import { getFallbackCandidates, withModelFallback, type ModelSelectedInfo } from './model-fallback';
+import { extractCurrentContext, extractPropertiesFromMessage, getMessageText, simplifyBoltActions } from './serverUtils';
+import type { Env, IProviderSetting, StageModel } from '@/types/index';
 
 export async function createSummary(props: {
   messages: Message[];
@@ -12,13 +13,20 @@ export async function createSummary(props: {
   promptId?: string;
   contextOptimization?: boolean;
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
+  // The routed model for this stage, takes precedence over the message tags
+  model?: StageModel;
+  onModelSelected?: (info: ModelSelectedInfo) => void;
+  // Aborts the model call when the client goes away
+  abortSignal?: AbortSignal;
 }) {
-  const { messages, env: serverEnv, apiKeys, providerSettings, onFinish } = props;
+  const { messages, env: serverEnv, apiKeys, providerSettings, onFinish, onModelSelected, model: stageModel, abortSignal } = props;
   let currentModel = SECONDARY_MODEL;
+  let currentProvider = DEFAULT_PROVIDER.name;
   const processedMessages = messages.map((message) => {
     if (message.role === 'user') {
-      const { model, content } = extractPropertiesFromMessage(message);
+      const { model, provider, content } = extractPropertiesFromMessage(message);
       currentModel = model;
+      currentProvider = provider;
       return { ...message, content };
     } else if (message.role == 'assistant') {
       let content = message.content;
@@ -33,7 +41,12 @@ export async function createSummary(props: {
     return message;
   });
 
-  const provider = DEFAULT_PROVIDER;
+  if (stageModel) {
+    currentModel = stageModel.model;
+    currentProvider = stageModel.provider;
+  }
+
+  const provider = getProvider(currentProvider);
   
   let slicedMessages = processedMessages;
   const { summary } = extractCurrentContext(processedMessages);
@@ -61,14 +74,15 @@ ${(summary as any).summary}`;
 
   console.debug('Sliced Messages:', slicedMessages.length);
 
-  const extractTextContent = (message: Message) =>
-    Array.isArray(message.content)
-      ? (message.content.find((item) => item.type === 'text')?.text as string) || ''
-      : message.content;
-
   // select files from the list of code file from the project that might be useful for the current request from the user
-  const resp = await generateText({
-    system: `
+  const resp = await withModelFallback({
+    task: 'summary',
+    candidates: getFallbackCandidates('summary', currentModel, provider, serverEnv),
+    onModelSelected,
+    abortSignal,
+    run: (candidate) =>
+      generateText({
+        system: `
         You are a software engineer. You are working on a project. you need to summarize the work till now and provide a summary of the chat till now.
 
         Please only use the following format to generate the summary:
@@ -126,7 +140,7 @@ Note:
         * DO not need to think too much just start writing imidiately
         * do not write any thing other that the summary with with the provided structure
         `,
-    prompt: `
+        prompt: `
 
 Here is the previous summary of the chat:
 <old_summary>
@@ -138,7 +152,7 @@ Below is the chat after that:
 <new_chats>
 ${slicedMessages
   .map((x) => {
-    return `---\n[${x.role}] ${extractTextContent(x)}\n---`;
+    return `---\n[${x.role}] ${getMessageText(x)}\n---`;
   })
   .join('\n')}
 </new_chats>
@@ -146,12 +160,16 @@ ${slicedMessages
 
 Please provide a summary of the chat till now including the hitorical summary of the chat.
 `,
-    model: provider.getModelInstance({
-      model: currentModel,
-      serverEnv: serverEnv || {},
-      apiKeys,
-      providerSettings
-    }) as any,
+        model: candidate.provider.createModelInstance({
+          model: candidate.model,
+          serverEnv: serverEnv || {},
+          apiKeys,
+          providerSettings,
+        }) as any,
+        // Retries are handled by withModelFallback
+        maxRetries: 0,
+        abortSignal,
+      }),
   });
 
   const response = resp.text;
@@ -0,0 +1,166 @@
+import type { FileMap } from '../../types/index';
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Path and exported names say more about a file than a word somewhere in its body
+const PATH_WEIGHT = 3;
+const SYMBOL_WEIGHT = 2;
+
+// Enough of a file to know what it is about, large generated or data files would dominate the index otherwise
+const MAX_INDEXED_CHARS = 20_000;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'have', 'has', 'are', 'was', 'not', 'but',
+  'can', 'you', 'your', 'please', 'make', 'add', 'use', 'all', 'some', 'when', 'what', 'should', 'would',
+  'want', 'like', 'also', 'then', 'them', 'there', 'which', 'new', 'get', 'set', 'let', 'const', 'var',
+  'function', 'return', 'import', 'export', 'default', 'true', 'false', 'null', 'undefined',
+]);
+
+// JavaScript and TypeScript exports, the languages of the starter templates
+const EXPORT_DECLARATION_REGEX =
+  /export\s+(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/g;
+const EXPORT_LIST_REGEX = /export\s*\{([^}]*)\}/g;
+
+export interface FileMatch {
+  path: string;
+  score: number;
+}
+
+interface IndexedFile {
+  path: string;
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+// Light stemming so `todos` finds `todo`
+const normalizeToken = (token: string) =>
+  token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+
+/**
+ * Splits text into search terms. Identifiers are split on camelCase as well as kept whole,
+ * so `TodoList` matches both "todo list" and "todolist"
+ * @param text Any text: a path, code or a chat message
+ * @returns Lowercase terms, stop words and single characters dropped
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[A-Za-z][A-Za-z0-9]*/g) || []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(' ');
+
+    for (const part of parts.length > 1 ? [word, ...parts] : parts) {
+      const token = normalizeToken(part.toLowerCase());
+
+      if (token.length > 1 && !STOP_WORDS.has(token)) {
+        tokens.push(token);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+const extractExportedSymbols = (content: string) => {
+  const symbols: string[] = [];
+
+  for (const match of Array.from(content.matchAll(EXPORT_DECLARATION_REGEX))) {
+    symbols.push(match[1]);
+  }
+
+  for (const match of Array.from(content.matchAll(EXPORT_LIST_REGEX))) {
+    // `export { a as b }` is known by its exported name
+    match[1].split(',').forEach((entry) => symbols.push(entry.trim().split(/\s+as\s+/).pop() || ''));
+  }
+
+  return symbols.filter(Boolean);
+};
+
+/**
+ * In-memory BM25 index over the paths, exported symbols and contents of a project's files.
+ * It narrows the candidates offered to the context selection model, and selects on its own when that model is unavailable
+ */
+export class FileIndex {
+  private readonly files: IndexedFile[] = [];
+  private readonly documentFrequencies = new Map<string, number>();
+  private readonly averageLength: number;
+
+  /**
+   * @param files The project's file map
+   * @param paths The paths to index, all files of the map by default
+   */
+  constructor(files: FileMap, paths: string[] = Object.keys(files)) {
+    for (const path of paths) {
+      const file = files[path];
+
+      if (file?.type !== 'file') continue;
+
+      const content = file.isBinary ? '' : file.content.slice(0, MAX_INDEXED_CHARS);
+      const termFrequencies = new Map<string, number>();
+      let length = 0;
+
+      const addTerms = (text: string, weight: number) => {
+        for (const token of tokenize(text)) {
+          termFrequencies.set(token, (termFrequencies.get(token) || 0) + weight);
+          length += weight;
+        }
+      };
+
+      addTerms(path, PATH_WEIGHT);
+      addTerms(extractExportedSymbols(content).join(' '), SYMBOL_WEIGHT);
+      addTerms(content, 1);
+
+      termFrequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      });
+      this.files.push({ path, length, termFrequencies });
+    }
+
+    this.averageLength = this.files.reduce((total, file) => total + file.length, 0) / (this.files.length || 1);
+  }
+
+  get size() {
+    return this.files.length;
+  }
+
+  /**
+   * Ranks the indexed files by relevance to a query
+   * @param query Usually the user's last message
+   * @param limit Most files to return
+   * @returns Matching files, best first; files sharing no term with the query are left out
+   */
+  search(query: string, limit: number): FileMatch[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const count = this.files.length;
+
+    const idf = (term: string) => {
+      const frequency = this.documentFrequencies.get(term) || 0;
+
+      return Math.log(1 + (count - frequency + 0.5) / (frequency + 0.5));
+    };
+
+    return this.files
+      .map((file) => {
+        let score = 0;
+
+        for (const term of terms) {
+          const frequency = file.termFrequencies.get(term);
+
+          if (!frequency) continue;
+
+          score +=
+            (idf(term) * frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + (B * file.length) / (this.averageLength || 1)));
+        }
+
+        return { path: file.path, score };
+      })
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
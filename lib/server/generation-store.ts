@@ -0,0 +1,166 @@
+import { globalSingleton } from './global-singleton';
+
+// Finished generations stay readable this long, so a reload right at the end still gets the tail
+const FINISHED_TTL_MS = 5 * 60 * 1000;
+
+// With no client attached, a generation keeps running this long waiting for a reconnect before it is aborted
+const RECONNECT_GRACE_MS = 30 * 1000;
+
+interface Generation {
+  // Everything the data stream produced so far, offsets index into this
+  text: string;
+  done: boolean;
+  // Rate limit key of the client that started it, only that client may resume or stop it
+  owner: string;
+  controller: AbortController;
+  // Readers waiting for more text
+  listeners: Set<() => void>;
+  readers: number;
+  abortTimer?: ReturnType<typeof setTimeout>;
+}
+
+const generations = globalSingleton('boltGenerations', () => new Map<string, Generation>());
+
+const notify = (generation: Generation) => {
+  generation.listeners.forEach((listener) => listener());
+  generation.listeners.clear();
+};
+
+const finish = (id: string, generation: Generation) => {
+  generation.done = true;
+  clearTimeout(generation.abortTimer);
+  notify(generation);
+
+  setTimeout(() => generations.delete(id), FINISHED_TTL_MS);
+};
+
+/**
+ * Registers a new generation
+ * @param id The generation id the client uses to reconnect
+ * @param owner The starting client's rate limit key, see getRateLimitKey
+ * @returns The abort signal for the generation's model calls, fired by a stop or when no client comes back
+ */
+export function createGeneration(id: string, owner: string): AbortSignal {
+  const controller = new AbortController();
+
+  generations.set(id, { text: '', done: false, owner, controller, listeners: new Set(), readers: 0 });
+
+  return controller.signal;
+}
+
+/**
+ * @param id The generation id
+ * @param owner The asking client's rate limit key
+ * @returns Whether the generation exists and was started by this client
+ */
+export function isGenerationOwner(id: string, owner: string): boolean {
+  return generations.get(id)?.owner === owner;
+}
+
+/**
+ * Buffers a generation's output independently of any client connection
+ * @param id The generation id
+ * @param source The data stream of the generation
+ */
+export async function bufferGeneration(id: string, source: ReadableStream<Uint8Array>) {
+  const generation = generations.get(id);
+
+  if (!generation) {
+    throw new Error(`Unknown generation ${id}`);
+  }
+
+  const reader = source.getReader();
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        break;
+      }
+
+      generation.text += decoder.decode(value, { stream: true });
+      notify(generation);
+    }
+  } catch (error) {
+    console.error(`Generation ${id} failed:`, error);
+  } finally {
+    finish(id, generation);
+  }
+}
+
+/**
+ * Streams a generation from an offset, then follows it live until it finishes
+ * @param id The generation id
+ * @param owner The asking client's rate limit key
+ * @param offset Number of characters the client has already processed
+ * @returns The stream, or undefined when the generation is unknown, has expired or belongs to another client
+ */
+export function readGeneration(id: string, owner: string, offset = 0): ReadableStream<Uint8Array> | undefined {
+  const generation = generations.get(id);
+
+  if (!generation || generation.owner !== owner) {
+    return undefined;
+  }
+
+  const encoder = new TextEncoder();
+  let position = offset;
+  let attached = true;
+
+  clearTimeout(generation.abortTimer);
+  generation.readers++;
+
+  const detach = () => {
+    if (!attached) return;
+
+    attached = false;
+    generation.readers--;
+
+    // Nobody is reading any more, give the client a moment to reconnect before paying for more tokens
+    if (generation.readers === 0 && !generation.done) {
+      generation.abortTimer = setTimeout(() => generation.controller.abort(), RECONNECT_GRACE_MS);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (position >= generation.text.length && !generation.done) {
+        await new Promise<void>((resolve) => generation.listeners.add(resolve));
+      }
+
+      // The client went away while this read was waiting
+      if (!attached) return;
+
+      if (position < generation.text.length) {
+        controller.enqueue(encoder.encode(generation.text.slice(position)));
+        position = generation.text.length;
+        return;
+      }
+
+      detach();
+      controller.close();
+    },
+    cancel() {
+      detach();
+    },
+  });
+}
+
+/**
+ * Stops a generation's model calls right away
+ * @param id The generation id
+ * @param owner The asking client's rate limit key
+ * @returns False when the generation is unknown or belongs to another client
+ */
+export function abortGeneration(id: string, owner: string): boolean {
+  const generation = generations.get(id);
+
+  if (!generation || generation.owner !== owner) {
+    return false;
+  }
+
+  generation.controller.abort();
+
+  return true;
+}
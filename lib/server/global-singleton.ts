@@ -0,0 +1,12 @@
+/**
+ * Returns the value stored under a key on globalThis, creating it on first use. Route handlers can be bundled
+ * separately and dev reloads re-evaluate modules, so state shared between routes can't live in a module variable
+ * @param key A name unique to the state, prefixed with `bolt` to stay clear of other globals
+ * @param init Creates the value the first time
+ * @returns The value shared by every route
+ */
+export function globalSingleton<T>(key: string, init: () => T): T {
+  const globals = globalThis as unknown as Record<string, T | undefined>;
+
+  return (globals[key] ??= init());
+}
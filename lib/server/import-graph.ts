@@ -0,0 +1,186 @@
+import { normalizeProjectPath } from './serverUtils';
+import type { FileMap } from '../../types/index';
+
+// Files whose imports are parsed, the component formats keep their imports in a script block or frontmatter
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.vue', '.svelte', '.astro'];
+
+// Tried in order when a specifier leaves out the extension, or names a directory
+const RESOLVE_EXTENSIONS = [...SOURCE_EXTENSIONS, '.d.ts', '.json', '.css', '.scss'];
+
+// Where `@/` and `~/` point: the project root in Next.js, `src/` in most Vite templates
+const ALIAS_ROOTS = ['', 'src/'];
+
+const IMPORT_REGEXES = [
+  // import x from '...', import { x } from '...', export { x } from '...', export * from '...'
+  /(?:^|[\s;])(?:import|export)\s+(?:type\s+)?[\w*${}\s,]+?\s+from\s+['"]([^'"\n]+)['"]/g,
+  // import '...' for side effects and styles
+  /(?:^|[\s;])import\s+['"]([^'"\n]+)['"]/g,
+  // import('...') and require('...')
+  /(?:\bimport|\brequire)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+];
+
+const isSourceFile = (path: string) => SOURCE_EXTENSIONS.some((extension) => path.endsWith(extension));
+
+// Collapses `.` and `..` segments
+const normalizeSegments = (path: string) => {
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+};
+
+/**
+ * Reads the module specifiers a source file imports, re-exports or requires
+ * @param content The file's source
+ * @returns The specifiers in the order they appear, without duplicates
+ */
+export function parseImports(content: string): string[] {
+  const specifiers = new Set<string>();
+
+  for (const regex of IMPORT_REGEXES) {
+    for (const match of Array.from(content.matchAll(regex))) {
+      specifiers.add(match[1]);
+    }
+  }
+
+  return Array.from(specifiers);
+}
+
+/**
+ * Dependency graph of a project's source files, built from their imports. Only project files are nodes,
+ * package imports are left out. Paths are relative to the project root
+ */
+export class ImportGraph {
+  private readonly files = new Set<string>();
+  private readonly imports = new Map<string, string[]>();
+  private readonly importedBy = new Map<string, string[]>();
+
+  constructor(fileMap: FileMap) {
+    Object.keys(fileMap).forEach((path) => {
+      if (fileMap[path]?.type === 'file') {
+        this.files.add(normalizeProjectPath(path));
+      }
+    });
+
+    Object.entries(fileMap).forEach(([path, file]) => {
+      const from = normalizeProjectPath(path);
+
+      if (file?.type !== 'file' || file.isBinary || !isSourceFile(from)) return;
+
+      const dependencies = parseImports(file.content)
+        .map((specifier) => this.resolve(from, specifier))
+        .filter((dependency): dependency is string => Boolean(dependency) && dependency !== from);
+
+      this.imports.set(from, Array.from(new Set(dependencies)));
+      dependencies.forEach((dependency) => {
+        const dependents = this.importedBy.get(dependency) || [];
+
+        if (!dependents.includes(from)) {
+          this.importedBy.set(dependency, [...dependents, from]);
+        }
+      });
+    });
+  }
+
+  // Maps a specifier to a project file, undefined for packages and files that don't exist
+  private resolve(from: string, specifier: string): string | undefined {
+    let bases: string[];
+
+    if (specifier.startsWith('./') || specifier.startsWith('../')) {
+      bases = [normalizeSegments(`${from.split('/').slice(0, -1).join('/')}/${specifier}`)];
+    } else if (specifier.startsWith('@/') || specifier.startsWith('~/')) {
+      bases = ALIAS_ROOTS.map((root) => normalizeSegments(`${root}${specifier.slice(2)}`));
+    } else if (specifier.startsWith('/')) {
+      bases = [normalizeSegments(specifier)];
+    } else {
+      return undefined;
+    }
+
+    for (const base of bases) {
+      // ESM TypeScript imports name the compiled `.js` file
+      const stripped = base.replace(/\.(m|c)?js$/, '');
+      const candidates = [
+        base,
+        ...RESOLVE_EXTENSIONS.map((extension) => `${stripped}${extension}`),
+        ...RESOLVE_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+      ];
+      const found = candidates.find((candidate) => this.files.has(candidate));
+
+      if (found) {
+        return found;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * @param path A file path, absolute or relative to the project root
+   * @returns The project files it imports
+   */
+  dependenciesOf(path: string): string[] {
+    return this.imports.get(normalizeProjectPath(path)) || [];
+  }
+
+  /**
+   * @param path A file path, absolute or relative to the project root
+   * @returns The project files that import it
+   */
+  dependentsOf(path: string): string[] {
+    return this.importedBy.get(normalizeProjectPath(path)) || [];
+  }
+}
+
+/**
+ * Adds the direct dependencies and dependents of the selected files, so the model sees the types and helpers
+ * they use and the callers a change affects. Dependencies come first, the expansion stops at the budget
+ * @param graph The project's import graph
+ * @param fileMap The project's files
+ * @param selected Paths already selected, relative to the project root
+ * @param budget Most files and characters to add
+ * @returns The added paths, in order of priority
+ */
+export function expandWithImports(
+  graph: ImportGraph,
+  fileMap: FileMap,
+  selected: string[],
+  budget: { maxFiles: number; maxChars: number },
+): string[] {
+  const contents = new Map<string, string>();
+
+  Object.entries(fileMap).forEach(([path, file]) => {
+    if (file?.type === 'file' && !file.isBinary) {
+      contents.set(normalizeProjectPath(path), file.content);
+    }
+  });
+
+  const candidates = [
+    ...selected.flatMap((path) => graph.dependenciesOf(path)),
+    ...selected.flatMap((path) => graph.dependentsOf(path)),
+  ];
+  const added: string[] = [];
+  let chars = 0;
+
+  for (const path of candidates) {
+    if (added.length >= budget.maxFiles) break;
+
+    const content = contents.get(path);
+
+    if (content === undefined || selected.includes(path) || added.includes(path)) continue;
+
+    // A large file is skipped rather than ending the expansion, smaller ones may still fit
+    if (chars + content.length > budget.maxChars) continue;
+
+    added.push(path);
+    chars += content.length;
+  }
+
+  return added;
+}
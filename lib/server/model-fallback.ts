@@ -0,0 +1,203 @@
+import { APICallError } from 'ai';
+import { MODEL_FALLBACKS, type FallbackTask } from '../constants';
+import { DEFAULT_PROVIDER, type BaseProvider } from '../provider';
+import type { Env } from '../../types/index';
+
+export interface ModelCandidate {
+  model: string;
+  provider: BaseProvider;
+}
+
+export interface ModelSelectedInfo {
+  task: FallbackTask;
+  model: string;
+  provider: string;
+  // The originally requested model, set only when a fallback answered
+  fallbackFrom?: string;
+}
+
+type FailureKind = 'retry' | 'next-model' | 'fatal';
+
+// Attempts per model for rate limits and server errors before moving down the chain
+const MAX_RETRIES_PER_MODEL = 2;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 10000;
+
+const CONTEXT_LENGTH_PATTERN = /context length|context window|maximum context|too many tokens|prompt is too long/i;
+
+/**
+ * Decides how to react to a provider error
+ * @param error The error thrown by the model call
+ * @returns 'retry' for rate limits and outages, 'next-model' for context-length errors, otherwise 'fatal'
+ */
+export function classifyProviderError(error: unknown): FailureKind {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (CONTEXT_LENGTH_PATTERN.test(message)) {
+    return 'next-model';
+  }
+
+  if (APICallError.isInstance(error)) {
+    if (error.responseBody && CONTEXT_LENGTH_PATTERN.test(error.responseBody)) {
+      return 'next-model';
+    }
+
+    if (error.statusCode === 429 || (error.statusCode && error.statusCode >= 500) || error.isRetryable) {
+      return 'retry';
+    }
+  }
+
+  return 'fatal';
+}
+
+/**
+ * Detects a call that was cancelled through its abort signal
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+const getRetryDelay = (error: unknown, attempt: number) => {
+  // Honor the provider's Retry-After header when it sends one
+  if (APICallError.isInstance(error)) {
+    const retryAfter = Number(error.responseHeaders?.['retry-after']);
+
+    if (retryAfter > 0) {
+      return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+    }
+  }
+
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+};
+
+// Waits out a retry delay, cut short when the request is cancelled
+const sleep = (ms: number, abortSignal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('The operation was aborted', 'AbortError'));
+    };
+    const timeout = setTimeout(() => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    if (abortSignal?.aborted) {
+      onAbort();
+    } else {
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+/**
+ * Reads a task's fallback chain from MODEL_FALLBACKS_<TASK>, a comma-separated list of model ids on the default
+ * provider. An empty value disables fallbacks for the task
+ * @param task The pipeline task
+ * @param serverEnv The server environment
+ * @returns The configured chain, or the defaults from MODEL_FALLBACKS when the variable is not set
+ */
+export function getModelFallbacks(task: FallbackTask, serverEnv: Env = process.env as Env): string[] {
+  const configured: string | undefined = serverEnv[`MODEL_FALLBACKS_${task.toUpperCase()}`];
+
+  if (configured === undefined) {
+    return MODEL_FALLBACKS[task];
+  }
+
+  return configured
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Builds the ordered list of models to try for a task: the requested model first, then the configured fallbacks.
+ * Fallbacks are models on the default provider and run with the request's own keys and settings for it, so a request
+ * on another provider only falls back when MODEL_FALLBACKS_CROSS_PROVIDER is `true`. Otherwise a bad user key or a
+ * user's Ollama outage would quietly move the request onto the server's key
+ * @param task The pipeline task
+ * @param model The requested model
+ * @param provider The requested model's provider
+ * @param serverEnv The server environment
+ * @returns The candidates, in the order to try them
+ */
+export function getFallbackCandidates(
+  task: FallbackTask,
+  model: string,
+  provider: BaseProvider,
+  serverEnv: Env = process.env as Env,
+): ModelCandidate[] {
+  const candidates: ModelCandidate[] = [{ model, provider }];
+
+  if (provider !== DEFAULT_PROVIDER && serverEnv.MODEL_FALLBACKS_CROSS_PROVIDER !== 'true') {
+    return candidates;
+  }
+
+  getModelFallbacks(task, serverEnv).forEach((fallbackModel) => {
+    if (provider !== DEFAULT_PROVIDER || fallbackModel !== model) {
+      candidates.push({ model: fallbackModel, provider: DEFAULT_PROVIDER });
+    }
+  });
+
+  return candidates;
+}
+
+/**
+ * Runs a model call, retrying with backoff on transient failures and moving down the fallback chain
+ * @param options The task, the candidate models in order and the call to run for each
+ * @returns The result of the first candidate that answered
+ */
+export async function withModelFallback<T>(options: {
+  task: FallbackTask;
+  candidates: ModelCandidate[];
+  run: (candidate: ModelCandidate) => Promise<T>;
+  onModelSelected?: (info: ModelSelectedInfo) => void;
+  // Stops the retries and the backoff between them when the request is cancelled
+  abortSignal?: AbortSignal;
+}): Promise<T> {
+  const { task, candidates, run, onModelSelected, abortSignal } = options;
+  let firstError: unknown;
+
+  for (let index = 0; index < candidates.length; index++) {
+    const candidate = candidates[index];
+
+    for (let attempt = 0; attempt <= MAX_RETRIES_PER_MODEL; attempt++) {
+      try {
+        const result = await run(candidate);
+
+        onModelSelected?.({
+          task,
+          model: candidate.model,
+          provider: candidate.provider.name,
+          fallbackFrom: index > 0 ? candidates[0].model : undefined,
+        });
+
+        return result;
+      } catch (error) {
+        // A cancelled request must not be retried or handed to a fallback
+        if (isAbortError(error)) {
+          throw error;
+        }
+
+        firstError = firstError ?? error;
+
+        const kind = classifyProviderError(error);
+
+        // Only errors from the requested model can be fatal; a broken fallback just moves on
+        if (kind === 'fatal' && index === 0) {
+          throw error;
+        }
+
+        if (kind !== 'retry' || attempt === MAX_RETRIES_PER_MODEL) {
+          console.warn(`${task}: ${candidate.provider.name}/${candidate.model} failed, trying next model:`, error);
+          break;
+        }
+
+        const delay = getRetryDelay(error, attempt);
+        console.warn(`${task}: ${candidate.provider.name}/${candidate.model} failed, retrying in ${delay}ms`);
+        await sleep(delay, abortSignal);
+      }
+    }
+  }
+
+  throw firstError;
+}
@@ -0,0 +1,223 @@
+import type { ChatError } from '../../types/index';
+import { globalSingleton } from './global-singleton';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Defaults when RATE_LIMIT_REQUESTS_PER_MINUTE / RATE_LIMIT_DAILY_TOKENS / RATE_LIMIT_DAILY_SESSIONS_PER_IP are not set,
+// 0 disables a limit
+const DEFAULT_REQUESTS_PER_MINUTE = 20;
+const DEFAULT_DAILY_TOKENS = 2_000_000;
+const DEFAULT_DAILY_SESSIONS_PER_IP = 20;
+
+// Reverse proxies in front of the app when RATE_LIMIT_TRUSTED_PROXIES is not set. Each appends the address it
+// received the request from to X-Forwarded-For, so entries before theirs were written by the client
+const DEFAULT_TRUSTED_PROXIES = 1;
+
+// Cookie used to tell clients apart when RATE_LIMIT_KEY is `session`
+export const SESSION_COOKIE = 'bolt_session';
+
+export interface RateLimitCounter {
+  total: number;
+  // Epoch milliseconds when the counter's window ends
+  resetAt: number;
+}
+
+/**
+ * Storage for fixed-window counters. The in-memory store only limits a single server instance,
+ * deployments with several instances should plug in a shared store (Redis, a database...)
+ */
+export interface RateLimitStore {
+  // Adds to a counter, starting a new window when the previous one has ended
+  increment(key: string, amount: number, windowMs: number): Promise<RateLimitCounter>;
+  // Reads a counter, undefined when it has no running window
+  get(key: string): Promise<RateLimitCounter | undefined>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+
+  async increment(key: string, amount: number, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const current = this.counters.get(key);
+    const counter =
+      current && current.resetAt > now
+        ? { total: current.total + amount, resetAt: current.resetAt }
+        : { total: amount, resetAt: now + windowMs };
+
+    this.counters.set(key, counter);
+    this.prune(now);
+
+    return counter;
+  }
+
+  async get(key: string): Promise<RateLimitCounter | undefined> {
+    const counter = this.counters.get(key);
+
+    return counter && counter.resetAt > Date.now() ? counter : undefined;
+  }
+
+  // Drops ended windows so the map doesn't grow with every client ever seen
+  private prune(now: number) {
+    if (this.counters.size < 1000) return;
+
+    this.counters.forEach((counter, key) => {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    });
+  }
+}
+
+const rateLimitStore = globalSingleton<{ current: RateLimitStore }>('boltRateLimitStore', () => ({
+  current: new MemoryRateLimitStore(),
+}));
+
+/**
+ * Replaces the store used by every rate-limited route
+ * @param store The store, e.g. one backed by Redis
+ */
+export function setRateLimitStore(store: RateLimitStore) {
+  rateLimitStore.current = store;
+}
+
+const getStore = () => rateLimitStore.current;
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+
+  return value !== undefined && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const getLimits = () => ({
+  requestsPerMinute: readLimit(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE, DEFAULT_REQUESTS_PER_MINUTE),
+  dailyTokens: readLimit(process.env.RATE_LIMIT_DAILY_TOKENS, DEFAULT_DAILY_TOKENS),
+  dailySessionsPerIp: readLimit(process.env.RATE_LIMIT_DAILY_SESSIONS_PER_IP, DEFAULT_DAILY_SESSIONS_PER_IP),
+});
+
+/**
+ * Finds the address a request came from. Hosting platforms that know it set `request.ip`; otherwise it is the
+ * X-Forwarded-For entry the outermost trusted proxy added. Without a proxy Next.js fills that header from the
+ * socket, but only when the client sent none, so self-hosted deployments should sit behind a proxy that sets it
+ * @param request The incoming request
+ * @returns The client's IP address, 'unknown' when there is none
+ */
+export function getClientIp(request: Request): string {
+  const platformIp = (request as Request & { ip?: string }).ip;
+
+  if (platformIp) {
+    return platformIp;
+  }
+
+  const forwardedFor = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const trustedProxies = Math.max(1, readLimit(process.env.RATE_LIMIT_TRUSTED_PROXIES, DEFAULT_TRUSTED_PROXIES));
+
+  return forwardedFor[Math.max(0, forwardedFor.length - trustedProxies)] || 'unknown';
+}
+
+function getSessionId(request: Request): string | undefined {
+  const match = (request.headers.get('Cookie') || '').match(new RegExp(`(?:^|;\\s*)${SESSION_COOKIE}=([^;]+)`));
+
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+/**
+ * Identifies the client a request is counted against: its session cookie when RATE_LIMIT_KEY is `session`
+ * and the cookie is set, its IP address otherwise
+ * @param request The incoming request
+ * @returns The rate limit key
+ */
+export function getRateLimitKey(request: Request): string {
+  const sessionId = process.env.RATE_LIMIT_KEY === 'session' ? getSessionId(request) : undefined;
+
+  return sessionId ? `session:${sessionId}` : `ip:${getClientIp(request)}`;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'requests' | 'tokens' | 'sessions'; retryAfter: number };
+
+/**
+ * Counts a request against the client's per-minute limit and checks its daily token quota. Session ids are chosen
+ * by the client, so each one seen for the first time that day also counts against its IP address: dropping or
+ * making up cookies only buys a limited number of fresh quotas
+ * @param key The client's rate limit key, see getRateLimitKey
+ * @param ip The client's IP address, see getClientIp
+ * @returns Whether the request may go ahead, and if not how many seconds until it can
+ */
+export async function checkRateLimit(key: string, ip: string): Promise<RateLimitResult> {
+  const { requestsPerMinute, dailyTokens, dailySessionsPerIp } = getLimits();
+  const store = getStore();
+  const now = Date.now();
+
+  if (key.startsWith('session:') && dailySessionsPerIp > 0 && !(await store.get(`seen:${key}`))) {
+    const sessions = await store.get(`sessions:ip:${ip}`);
+
+    // The session is only remembered once allowed, so a refused one is refused again
+    if (sessions && sessions.total >= dailySessionsPerIp) {
+      return { allowed: false, reason: 'sessions', retryAfter: Math.ceil((sessions.resetAt - now) / 1000) };
+    }
+
+    await store.increment(`sessions:ip:${ip}`, 1, DAY_MS);
+    await store.increment(`seen:${key}`, 1, DAY_MS);
+  }
+
+  if (dailyTokens > 0) {
+    const tokens = await store.get(`tokens:${key}`);
+
+    if (tokens && tokens.total >= dailyTokens) {
+      return { allowed: false, reason: 'tokens', retryAfter: Math.ceil((tokens.resetAt - now) / 1000) };
+    }
+  }
+
+  if (requestsPerMinute > 0) {
+    const requests = await store.increment(`requests:${key}`, 1, MINUTE_MS);
+
+    if (requests.total > requestsPerMinute) {
+      return { allowed: false, reason: 'requests', retryAfter: Math.ceil((requests.resetAt - now) / 1000) };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Adds model usage to the client's daily token quota
+ * @param key The client's rate limit key
+ * @param tokens Prompt and completion tokens used
+ */
+export async function recordTokenUsage(key: string, tokens: number) {
+  if (!tokens || getLimits().dailyTokens === 0) return;
+
+  try {
+    await getStore().increment(`tokens:${key}`, tokens, DAY_MS);
+  } catch (error) {
+    // A failing store must not break a response that already went out
+    console.error('Error recording token usage:', error);
+  }
+}
+
+/**
+ * Builds the 429 response for a request over its limit, as a typed chat error with a Retry-After header
+ * @param result The failed rate limit check
+ */
+export function rateLimitResponse(result: Extract<RateLimitResult, { allowed: false }>): Response {
+  const chatError: ChatError = {
+    code: 'rate-limited',
+    message: {
+      tokens: 'Daily token quota reached for this client',
+      sessions: 'Too many new sessions from this address today',
+      requests: 'Too many requests, please slow down',
+    }[result.reason],
+    retryable: true,
+    retryAfter: result.retryAfter,
+  };
+
+  return Response.json(chatError, {
+    status: 429,
+    headers: { 'Retry-After': String(result.retryAfter) },
+  });
+}
@@ -0,0 +1,183 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from '@ai-sdk/provider';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type ReplayMode = 'record' | 'replay';
+
+type DoGenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+type DoStreamResult = Awaited<ReturnType<LanguageModelV1['doStream']>>;
+
+interface Transcript {
+  key: string;
+  provider: string;
+  modelId: string;
+  recordedAt: string;
+  // Kept for humans inspecting the transcript, the key is derived from it
+  prompt: LanguageModelV1CallOptions['prompt'];
+  generate?: Pick<DoGenerateResult, 'text' | 'reasoning' | 'toolCalls' | 'finishReason' | 'usage' | 'providerMetadata'>;
+  stream?: LanguageModelV1StreamPart[];
+}
+
+const DEFAULT_TRANSCRIPT_DIR = 'llm-transcripts';
+
+/**
+ * Reads LLM_REPLAY_MODE to decide whether model calls are recorded to or replayed from disk
+ * @returns The active mode, or undefined for live calls
+ */
+export function getReplayMode(): ReplayMode | undefined {
+  const mode = process.env.LLM_REPLAY_MODE;
+
+  return mode === 'record' || mode === 'replay' ? mode : undefined;
+}
+
+const getTranscriptDir = () => path.resolve(process.cwd(), process.env.LLM_REPLAY_DIR || DEFAULT_TRANSCRIPT_DIR);
+
+// The key ignores the model id so a transcript replays whichever model is selected
+const getTranscriptKey = (kind: 'generate' | 'stream', options: LanguageModelV1CallOptions) =>
+  createHash('sha256')
+    .update(JSON.stringify({ kind, mode: options.mode.type, prompt: options.prompt }))
+    .digest('hex');
+
+const readTranscript = async (key: string): Promise<Transcript> => {
+  try {
+    return JSON.parse(await fs.readFile(path.join(getTranscriptDir(), `${key}.json`), 'utf-8'));
+  } catch (error) {
+    throw new Error(`No recorded transcript for prompt hash ${key}. Record one with LLM_REPLAY_MODE=record.`);
+  }
+};
+
+const writeTranscript = async (transcript: Transcript) => {
+  const dir = getTranscriptDir();
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${transcript.key}.json`), JSON.stringify(transcript, null, 2));
+};
+
+// Errors and dates do not survive JSON, store them in a form that can be revived
+const serializePart = (part: LanguageModelV1StreamPart): LanguageModelV1StreamPart => {
+  if (part.type === 'error') {
+    return { type: 'error', error: { message: part.error instanceof Error ? part.error.message : String(part.error) } };
+  }
+
+  return part;
+};
+
+const revivePart = (part: LanguageModelV1StreamPart): LanguageModelV1StreamPart => {
+  if (part.type === 'error') {
+    return { type: 'error', error: new Error((part.error as { message?: string })?.message || 'Recorded error') };
+  }
+
+  if (part.type === 'response-metadata' && part.timestamp) {
+    return { ...part, timestamp: new Date(part.timestamp) };
+  }
+
+  return part;
+};
+
+/**
+ * A LanguageModelV1 that records the wrapped model's responses to disk, or replays them without a model.
+ * Transcripts are keyed by a hash of the prompt, so the same request always gets the same answer.
+ */
+export class ReplayLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly defaultObjectGenerationMode = undefined;
+  readonly provider: string;
+  readonly modelId: string;
+
+  private readonly mode: ReplayMode;
+  private readonly model?: LanguageModelV1;
+
+  constructor(options: { mode: ReplayMode; provider: string; modelId: string; model?: LanguageModelV1 }) {
+    this.mode = options.mode;
+    this.provider = options.provider;
+    this.modelId = options.modelId;
+    this.model = options.model;
+
+    if (this.mode === 'record' && !this.model) {
+      throw new Error('A model is required to record transcripts');
+    }
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<DoGenerateResult> {
+    const key = getTranscriptKey('generate', options);
+
+    if (this.mode === 'replay') {
+      const transcript = await readTranscript(key);
+
+      if (!transcript.generate) {
+        throw new Error(`Transcript ${key} does not contain a generate response`);
+      }
+
+      return {
+        ...transcript.generate,
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    }
+
+    const result = await this.model!.doGenerate(options);
+    const { text, reasoning, toolCalls, finishReason, usage, providerMetadata } = result;
+
+    await writeTranscript({
+      key,
+      provider: this.provider,
+      modelId: this.modelId,
+      recordedAt: new Date().toISOString(),
+      prompt: options.prompt,
+      generate: { text, reasoning, toolCalls, finishReason, usage, providerMetadata },
+    });
+
+    return result;
+  }
+
+  async doStream(options: LanguageModelV1CallOptions): Promise<DoStreamResult> {
+    const key = getTranscriptKey('stream', options);
+
+    if (this.mode === 'replay') {
+      const transcript = await readTranscript(key);
+      const parts = transcript.stream;
+
+      if (!parts) {
+        throw new Error(`Transcript ${key} does not contain a stream response`);
+      }
+
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            parts.forEach((part) => controller.enqueue(revivePart(part)));
+            controller.close();
+          },
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    }
+
+    const result = await this.model!.doStream(options);
+    const recordedParts: LanguageModelV1StreamPart[] = [];
+    const transcriptBase = {
+      key,
+      provider: this.provider,
+      modelId: this.modelId,
+      prompt: options.prompt,
+    };
+
+    return {
+      ...result,
+      stream: result.stream.pipeThrough(
+        new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+          transform(part, controller) {
+            recordedParts.push(serializePart(part));
+            controller.enqueue(part);
+          },
+          async flush() {
+            try {
+              await writeTranscript({ ...transcriptBase, recordedAt: new Date().toISOString(), stream: recordedParts });
+            } catch (error) {
+              console.error('Error writing LLM transcript:', error);
+            }
+          },
+        }),
+      ),
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import type { ChatError, FileMap } from '../../types/index';
+
+// Upper bounds for request bodies, the chat body carries the whole project so it gets the most room
+export const MAX_CHAT_BODY_BYTES = 20 * 1024 * 1024;
+export const MAX_ENHANCER_BODY_BYTES = 64 * 1024;
+export const MAX_TOOL_RESULT_BODY_BYTES = 1024 * 1024;
+
+const MAX_MESSAGES = 500;
+const MAX_MESSAGE_CHARS = 500_000;
+const MAX_FILES = 5000;
+const MAX_PATH_CHARS = 1024;
+const MAX_FILE_CHARS = 2 * 1024 * 1024;
+const MAX_PROMPT_CHARS = 20_000;
+const MAX_CUSTOM_PROMPT_CHARS = 100_000;
+// Attached images are downscaled in the browser, so this only stops oversized uploads
+const MAX_IMAGE_CHARS = 7 * 1024 * 1024;
+const MAX_IMAGES_PER_MESSAGE = 4;
+const MAX_ANNOTATIONS = 50;
+
+const stageModelSchema = z.object({
+  model: z.string().min(1).max(200),
+  provider: z.string().min(1).max(100),
+});
+
+const modelRoutingSchema = z.object({
+  summary: stageModelSchema.optional(),
+  context: stageModelSchema.optional(),
+  enhancer: stageModelSchema.optional(),
+  response: stageModelSchema.optional(),
+  continuation: stageModelSchema.optional(),
+});
+
+// Parts of a multimodal message. Images are data URLs only: the AI SDK downloads URLs on the server, which would let
+// clients make it fetch any address and skip the size limit
+const contentPartSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string().max(MAX_MESSAGE_CHARS) }),
+  z.object({
+    type: z.literal('image'),
+    image: z
+      .string()
+      .max(MAX_IMAGE_CHARS, 'Image is too large')
+      .regex(/^data:image\/(png|jpeg|gif|webp);base64,/, 'Image must be a PNG, JPEG, GIF or WebP data URL'),
+    mimeType: z.string().max(100).optional(),
+  }),
+]);
+
+const messageSchema = z.object({
+  id: z.string().max(100).optional(),
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.union([
+    z.string().max(MAX_MESSAGE_CHARS),
+    z
+      .array(contentPartSchema)
+      .min(1)
+      .max(50)
+      .refine((parts) => parts.filter((part) => part.type === 'image').length <= MAX_IMAGES_PER_MESSAGE, {
+        message: `At most ${MAX_IMAGES_PER_MESSAGE} images are allowed per message`,
+      }),
+  ]),
+  // Annotations the server attached to an earlier answer, sent back so the summary and code context carry over
+  annotations: z.array(z.record(z.unknown())).max(MAX_ANNOTATIONS).optional(),
+});
+
+// The client's file tree entries, `directory` is what the file explorer calls a folder
+const fileEntrySchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('file'),
+    content: z.string().max(MAX_FILE_CHARS).optional(),
+    isBinary: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal('folder') }),
+  z.object({ type: z.literal('directory') }),
+]);
+
+const fileMapSchema = z
+  .record(z.string().min(1).max(MAX_PATH_CHARS), fileEntrySchema)
+  .refine((files) => Object.keys(files).length <= MAX_FILES, { message: `At most ${MAX_FILES} files are allowed` })
+  .transform((files): FileMap => {
+    const fileMap: FileMap = {};
+
+    Object.entries(files).forEach(([path, entry]) => {
+      fileMap[path] =
+        entry.type === 'file'
+          ? { type: 'file', content: entry.content || '', isBinary: entry.isBinary || false }
+          : { type: 'folder' };
+    });
+
+    return fileMap;
+  });
+
+export const chatRequestSchema = z.object({
+  messages: z.array(messageSchema).min(1).max(MAX_MESSAGES),
+  files: fileMapSchema.optional().default({}),
+  promptId: z.string().max(100).optional(),
+  customPrompt: z
+    .object({
+      id: z.string().max(100),
+      label: z.string().max(200),
+      description: z.string().max(1000).optional(),
+      content: z.string().max(MAX_CUSTOM_PROMPT_CHARS),
+    })
+    .optional(),
+  contextOptimization: z.boolean().optional().default(false),
+  modelRouting: modelRoutingSchema.optional(),
+  forceSummary: z.boolean().optional(),
+  // Lets the model call tools that run in the browser's WebContainer, see createChatTools
+  toolCalling: z.boolean().optional(),
+  // Also offers the runCommand tool, only with toolCalling
+  commandTool: z.boolean().optional(),
+});
+
+export const enhancerRequestSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required').max(MAX_PROMPT_CHARS),
+  // The enhancer model comes from the routing settings, this overrides them for the request
+  modelRouting: modelRoutingSchema.optional(),
+});
+
+export const toolResultRequestSchema = z.object({
+  toolCallId: z.string().min(1).max(200),
+  result: z.unknown().refine((result) => result !== undefined, { message: 'Result is required' }),
+});
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+export type EnhancerRequest = z.infer<typeof enhancerRequestSchema>;
+
+export type ParsedBody<T> = { success: true; data: T } | { success: false; response: Response };
+
+const invalidRequest = (message: string, fields?: ChatError['fields'], status = 400): ParsedBody<never> => {
+  const chatError: ChatError = { code: 'invalid-request', message, retryable: false, fields };
+
+  return { success: false, response: Response.json(chatError, { status }) };
+};
+
+/**
+ * Reads and validates a JSON request body
+ * @param request The incoming request
+ * @param schema The schema the body must match
+ * @param maxBytes Largest body accepted
+ * @returns The parsed body, or a 400 (413 when too large) response with field-level errors
+ */
+export async function parseRequestBody<S extends z.ZodTypeAny>(
+  request: Request,
+  schema: S,
+  maxBytes: number,
+): Promise<ParsedBody<z.output<S>>> {
+  // Reject early when the client announces an oversized body, the length is checked again after reading
+  if (Number(request.headers.get('Content-Length')) > maxBytes) {
+    return invalidRequest(`Request body exceeds ${maxBytes} bytes`, undefined, 413);
+  }
+
+  const text = await request.text();
+
+  if (new TextEncoder().encode(text).length > maxBytes) {
+    return invalidRequest(`Request body exceeds ${maxBytes} bytes`, undefined, 413);
+  }
+
+  let body: unknown;
+
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return invalidRequest('Request body is not valid JSON');
+  }
+
+  const result = schema.safeParse(body);
+
+  if (!result.success) {
+    return invalidRequest(
+      'Request body is invalid',
+      result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+    );
+  }
+
+  return { success: true, data: result.data };
+}
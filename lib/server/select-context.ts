@@ -1,14 +1,77 @@
 import { generateText, type CoreTool, type GenerateTextResult, type Message } from 'ai';
 import ignore from 'ignore';
 import { IGNORE_PATTERNS, SECONDARY_MODEL } from '../constants';
-import { DEFAULT_PROVIDER } from '../provider';
-import { createFilesContext, extractCurrentContext, extractPropertiesFromMessage, simplifyBoltActions } from './serverUtils';
-import type { Env, IProviderSetting, FileMap } from '../../types/index';
+import { DEFAULT_PROVIDER, getProvider } from '../provider';
+import { getFallbackCandidates, withModelFallback, type ModelSelectedInfo } from './model-fallback';
+import {
+  createFilesContext,
+  extractCurrentContext,
+  extractPropertiesFromMessage,
+  getMessageText,
+  normalizeProjectPath,
+  simplifyBoltActions,
+} from './serverUtils';
+import { FileIndex } from './file-index';
+import { ImportGraph, expandWithImports } from './import-graph';
+import type { Env, IProviderSetting, FileMap, StageModel, TraceAttributeValue, UnmatchedContextFile } from '../../types/index';
 
 // Common patterns to ignore, similar to .gitignore
 
 const ig = ignore().add(IGNORE_PATTERNS);
 
+// Larger projects are narrowed down with the lexical index before the model sees the list
+const MAX_CANDIDATE_FILES = 150;
+// Files picked by the index alone when the context model is unavailable
+const INDEX_SELECTED_FILES = 8;
+// Room for the direct imports and importers of the selected files
+const MAX_EXPANDED_FILES = 6;
+const MAX_EXPANDED_CHARS = 40_000;
+
+// Edit distance from a project path up to which an unmatched path counts as a near miss of it
+const MAX_SUGGESTION_DISTANCE = 3;
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// The project path an unmatched path most likely meant: the only one it is a directory-boundary suffix of
+// (a dropped `src/`), or else the one a small typo away. Distant paths get no suggestion, they were made up
+const suggestPath = (path: string, projectPaths: string[]) => {
+  const suffixMatches = projectPaths.filter((projectPath) => projectPath.endsWith(`/${path}`));
+
+  if (suffixMatches.length === 1) {
+    return suffixMatches[0];
+  }
+
+  let suggestion: string | undefined;
+  let bestDistance = MAX_SUGGESTION_DISTANCE + 1;
+
+  for (const projectPath of projectPaths) {
+    if (Math.abs(projectPath.length - path.length) >= bestDistance) continue;
+
+    const distance = editDistance(path, projectPath);
+
+    if (distance < bestDistance) {
+      suggestion = projectPath;
+      bestDistance = distance;
+    }
+  }
+
+  return suggestion;
+};
+
 export async function selectContext(props: {
   messages: Message[];
   env?: Env;
@@ -19,13 +82,24 @@ export async function selectContext(props: {
   contextOptimization?: boolean;
   summary?: string;
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
+  // The routed model for this stage, takes precedence over the message tags
+  model?: StageModel;
+  onModelSelected?: (info: ModelSelectedInfo) => void;
+  // Receives the paths the model selected that match no project file
+  onUnmatchedFiles?: (files: UnmatchedContextFile[]) => void;
+  // Receives what the selection did along the way, for the request's trace
+  onTraceEvent?: (name: string, attributes: Record<string, TraceAttributeValue>) => void;
+  // Aborts the model call when the client goes away
+  abortSignal?: AbortSignal;
 }) {
-  const { messages, env: serverEnv, apiKeys, files, providerSettings, summary, onFinish } = props;
+  const { messages, env: serverEnv, apiKeys, files, providerSettings, summary, onFinish, onModelSelected, onUnmatchedFiles, onTraceEvent, model: stageModel, abortSignal } = props;
   let currentModel = SECONDARY_MODEL;
+  let currentProvider = DEFAULT_PROVIDER.name;
   const processedMessages = messages.map((message) => {
     if (message.role === 'user') {
-      const { model, content } = extractPropertiesFromMessage(message);
+      const { model, provider, content } = extractPropertiesFromMessage(message);
       currentModel = model;
+      currentProvider = provider;
       return { ...message, content };
     } else if (message.role == 'assistant') {
       let content = message.content;
@@ -37,24 +111,19 @@ export async function selectContext(props: {
     return message;
   });
 
-  const provider = DEFAULT_PROVIDER;
+  if (stageModel) {
+    currentModel = stageModel.model;
+    currentProvider = stageModel.provider;
+  }
+
+  const provider = getProvider(currentProvider);
 
   const { codeContext } = extractCurrentContext(processedMessages);
 
   let filePaths = getFilePaths(files || {});
   filePaths = filePaths.filter((x) => {
-    // Ensure we're using a relative path for the ignore check
-    // Handle leading slash paths
-    if (x.startsWith('/')) {
-      // Find the last part of the path after the last slash
-      const parts = x.split('/');
-      const relativePath = parts[parts.length - 1];
-      return !ig.ignores(relativePath);
-    }
-    
-    // For relative paths, just use the path as is
-    const relPath = x.replace('/home/project/', '');
-    return !ig.ignores(relPath);
+    // The ignore check needs the path relative to the project root
+    return !ig.ignores(normalizeProjectPath(x));
   });
 
   let context = '';
@@ -64,11 +133,7 @@ export async function selectContext(props: {
   if (codeContext?.type === 'codeContext') {
     const codeContextFiles: string[] = codeContext.files || [];
     Object.keys(files || {}).forEach((path) => {
-      let relativePath = path;
-
-      if (path.startsWith('/home/project/')) {
-        relativePath = path.replace('/home/project/', '');
-      }
+      const relativePath = normalizeProjectPath(path);
 
       if (codeContextFiles.includes(relativePath)) {
         contextFiles[relativePath] = files[path];
@@ -82,29 +147,37 @@ export async function selectContext(props: {
     ? `Here is the summary of the chat till now: ${summary}`
     : 'No summary available yet. This is the beginning of the conversation.';
 
-  const extractTextContent = (message: Message) =>
-    Array.isArray(message.content)
-      ? (message.content.find((item) => item.type === 'text')?.text as string) || ''
-      : message.content;
-
   const lastUserMessage = processedMessages.filter((x) => x.role == 'user').pop();
 
   if (!lastUserMessage) {
     throw new Error('No user message found');
   }
 
-  // Step 1: Generate file list with paths
-  const filesList = filePaths.map((path) => {
-    // Extract just the filename for display
-    const filenameMatch = path.match(/([^/]+)$/);
-    const filename = filenameMatch ? filenameMatch[1] : path;
+  const query = getMessageText(lastUserMessage);
+  const index = new FileIndex(files, filePaths);
+  // Files already in context stay candidates, follow-up requests usually touch them again
+  const previousPaths = filePaths.filter((path) => currrentFiles.includes(normalizeProjectPath(path)));
 
-    return `${path}`;
-  });
+  // Step 1: Offer the most relevant files first, filling up with the rest so nothing the index misses is hidden
+  const filesList =
+    filePaths.length > MAX_CANDIDATE_FILES
+      ? Array.from(
+          new Set([...previousPaths, ...index.search(query, MAX_CANDIDATE_FILES).map((match) => match.path), ...filePaths]),
+        ).slice(0, MAX_CANDIDATE_FILES)
+      : filePaths;
 
   // Step 2: Select which files to include in the context
-  const resp = await generateText({
-    system: `
+  let selectedFiles: string[];
+
+  try {
+    const resp = await withModelFallback({
+      task: 'context',
+      candidates: getFallbackCandidates('context', currentModel, provider, serverEnv),
+      onModelSelected,
+      abortSignal,
+      run: (candidate) =>
+        generateText({
+          system: `
 You are a senior software engineer reviewing code for another developer. You need to analyze the user's question and the code files available in the project to determine which files are most relevant for answering their question.
 
 Please choose only the files that are ACTUALLY NEEDED to solve the user's problem.
@@ -121,12 +194,12 @@ Important rules:
 
 Your task is to review the list of files and select ONLY the minimum set needed to properly answer the user's question.
 `,
-    prompt: `
+          prompt: `
 ${summaryText}
 
 The most recent user query is:
 ---
-${extractTextContent(lastUserMessage)}
+${query}
 ---
 
 Here are the files available in the project:
@@ -137,62 +210,95 @@ ${filesList.join('\n')}
 Based on the user's query, which files from this list should be included in the context for answering their question?
 Please respond ONLY with a list of file paths without any explanation or commentary. Just the file paths separated by new lines.
 `,
-    model: provider.getModelInstance({
-      model: currentModel,
-      serverEnv: serverEnv || {},
-      apiKeys,
-      providerSettings
-    }) as any,
-  });
+          model: candidate.provider.createModelInstance({
+            model: candidate.model,
+            serverEnv: serverEnv || {},
+            apiKeys,
+            providerSettings,
+          }) as any,
+          // Retries are handled by withModelFallback
+          maxRetries: 0,
+          abortSignal,
+        }),
+    });
+
+    selectedFiles = resp.text
+      .split('\n')
+      // Models sometimes format the list despite the instructions
+      .map((file) => file.trim().replace(/^(?:[-*]|\d+\.)\s+/, '').replace(/^[`'"]+|[`'"]+$/g, ''))
+      .filter((file) => file.length > 0);
+
+    if (onFinish) {
+      // Make sure there's always usage information even if the response doesn't have it
+      const safeResp = {
+        ...resp,
+        usage: resp.usage || {
+          promptTokens: 100,
+          completionTokens: 100,
+          totalTokens: 200
+        }
+      };
+      onFinish(safeResp);
+    }
+  } catch (error) {
+    if (abortSignal?.aborted) {
+      throw error;
+    }
+
+    // Every model in the chain failed, the index still gives the response something to work with
+    onTraceEvent?.('lexical-fallback', { error: error instanceof Error ? error.message : String(error) });
+    selectedFiles = Array.from(
+      new Set([...previousPaths, ...index.search(query, INDEX_SELECTED_FILES).map((match) => match.path)]),
+    );
+  }
 
-  const selectedFiles = resp.text
-    .split('\n')
-    .map((file) => file.trim())
-    .filter((file) => file.length > 0);
+  onTraceEvent?.('selected', { files: selectedFiles });
 
-  console.debug('Selected Files:', selectedFiles);
+  // Step 3: Create the actual context from selected files, keyed by their relative paths. Only exact matches
+  // are used, a path that matches no file is reported rather than guessed at
+  const pathsByNormalized = new Map<string, string>();
+  filePaths.forEach((path) => pathsByNormalized.set(normalizeProjectPath(path), path));
 
-  // Step 3: Create the actual context from selected files
-  const selectedFileMap: FileMap = {};
+  const normalizedFileMap: FileMap = {};
+  const unmatchedFiles: UnmatchedContextFile[] = [];
   selectedFiles.forEach((file) => {
-    const foundPath = filePaths.find((path) => path.includes(file) || file.includes(path));
-    if (foundPath && files[foundPath]) {
-      selectedFileMap[foundPath] = files[foundPath];
+    const normalizedPath = normalizeProjectPath(file);
+    const foundPath = pathsByNormalized.get(normalizedPath);
+
+    if (foundPath && files[foundPath]?.type === 'file') {
+      normalizedFileMap[normalizedPath] = files[foundPath];
+    } else if (!unmatchedFiles.some((unmatched) => unmatched.path === file)) {
+      unmatchedFiles.push({ path: file, suggestion: suggestPath(normalizedPath, Array.from(pathsByNormalized.keys())) });
     }
   });
 
-  if (onFinish) {
-    // Make sure there's always usage information even if the response doesn't have it
-    const safeResp = {
-      ...resp,
-      usage: resp.usage || {
-        promptTokens: 100,
-        completionTokens: 100,
-        totalTokens: 200
-      }
-    };
-    onFinish(safeResp);
+  if (unmatchedFiles.length) {
+    onUnmatchedFiles?.(unmatchedFiles);
   }
 
-  // Normalize all paths to be relative (remove any leading slashes)
-  const normalizedFileMap: FileMap = {};
-  Object.keys(selectedFileMap).forEach((path) => {
-    let normalizedPath = path;
-    
-    // Remove WORK_DIR prefix if present
-    if (normalizedPath.startsWith('/home/project/')) {
-      normalizedPath = normalizedPath.replace('/home/project/', '');
-    }
-    
-    // Remove any leading slashes to ensure it's relative
-    while (normalizedPath.startsWith('/')) {
-      normalizedPath = normalizedPath.substring(1);
+  // Step 4: Add what the selected files import and what imports them, after them so the token budget drops these first
+  const candidateFiles: FileMap = {};
+  filePaths.forEach((path) => {
+    candidateFiles[path] = files[path];
+  });
+
+  const graph = new ImportGraph(candidateFiles);
+  const expandedPaths = expandWithImports(graph, candidateFiles, Object.keys(normalizedFileMap), {
+    maxFiles: MAX_EXPANDED_FILES,
+    maxChars: MAX_EXPANDED_CHARS,
+  });
+  expandedPaths.forEach((path) => {
+    const foundPath = pathsByNormalized.get(path);
+
+    if (foundPath) {
+      normalizedFileMap[path] = files[foundPath];
     }
-    
-    // Use the normalized path as the new key
-    normalizedFileMap[normalizedPath] = selectedFileMap[path];
   });
 
+  if (expandedPaths.length) {
+    onTraceEvent?.('import-expansion', { files: expandedPaths });
+  }
+
   return normalizedFileMap;
 }
 
@@ -1,14 +1,108 @@
 import { type Message } from 'ai';
-import { DEFAULT_MODEL } from '../constants';
-import { IGNORE_PATTERNS, type FileMap } from '../constants';
+import { DEFAULT_MODEL, DEFAULT_MODEL_ROUTING } from '../constants';
+import { IGNORE_PATTERNS } from '../constants';
 import { DEFAULT_PROVIDER } from '../provider';
+import { WORK_DIR } from '../prompt';
 import ignore from 'ignore';
-import type { ContextAnnotation } from '../../types/index';
+import type { ContextAnnotation, FileMap, IProviderSetting, ModelRouting, PipelineStage, StageModel } from '../../types/index';
 
 const MODEL_REGEX = /^\[Model: (.*?)\]\n\n/;
 const PROVIDER_REGEX = /\[Provider: (.*?)\]\n\n/;
 
-export function extractPropertiesFromMessage(message: Omit<Message, 'id'>): {
+function parseCookies(cookieHeader: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  const items = cookieHeader.split(';').map((cookie) => cookie.trim());
+
+  items.forEach((item) => {
+    const [name, ...rest] = item.split('=');
+
+    if (name && rest) {
+      const decodedName = decodeURIComponent(name.trim());
+      const decodedValue = decodeURIComponent(rest.join('=').trim());
+      cookies[decodedName] = decodedValue;
+    }
+  });
+
+  return cookies;
+}
+
+/**
+ * Reads the user's API keys and provider settings from the settings cookies
+ * @param cookieHeader The raw Cookie request header
+ * @returns API keys and per-provider settings, keyed by provider name
+ */
+export function getProviderSettingsFromCookies(cookieHeader: string | null): {
+  apiKeys: Record<string, string>;
+  providerSettings: Record<string, IProviderSetting>;
+} {
+  const cookies = parseCookies(cookieHeader || '');
+
+  try {
+    return {
+      apiKeys: JSON.parse(cookies.apiKeys || '{}'),
+      providerSettings: JSON.parse(cookies.providers || '{}'),
+    };
+  } catch (error) {
+    console.error('Error parsing provider settings cookies:', error);
+    return { apiKeys: {}, providerSettings: {} };
+  }
+}
+
+const PIPELINE_STAGES: PipelineStage[] = ['summary', 'context', 'enhancer', 'response', 'continuation'];
+
+// Keeps only well-formed stage entries from untrusted input
+function sanitizeModelRouting(routing: unknown): ModelRouting {
+  const sanitized: ModelRouting = {};
+
+  if (!routing || typeof routing !== 'object') {
+    return sanitized;
+  }
+
+  PIPELINE_STAGES.forEach((stage) => {
+    const entry = (routing as Record<string, any>)[stage];
+
+    if (entry && typeof entry.model === 'string' && entry.model && typeof entry.provider === 'string' && entry.provider) {
+      sanitized[stage] = { model: entry.model, provider: entry.provider };
+    }
+  });
+
+  return sanitized;
+}
+
+/**
+ * Builds the model routing for a request: defaults, then the user's settings cookie, then the request's own overrides
+ * @param cookieHeader The raw Cookie request header
+ * @param requestRouting Per-request overrides sent in the request body
+ * @returns The model and provider to use for each configured stage
+ */
+export function getModelRouting(cookieHeader: string | null, requestRouting?: unknown): ModelRouting {
+  const cookies = parseCookies(cookieHeader || '');
+  let cookieRouting: unknown = {};
+
+  try {
+    cookieRouting = JSON.parse(cookies.modelRouting || '{}');
+  } catch (error) {
+    console.error('Error parsing model routing cookie:', error);
+  }
+
+  return {
+    ...DEFAULT_MODEL_ROUTING,
+    ...sanitizeModelRouting(cookieRouting),
+    ...sanitizeModelRouting(requestRouting),
+  };
+}
+
+/**
+ * Reads the [Model: ...] and [Provider: ...] tags from a user message
+ * @param message The user message
+ * @param defaults Used when the message carries no tags
+ * @returns The model, the provider and the content without the tags
+ */
+export function extractPropertiesFromMessage(
+  message: Omit<Message, 'id'>,
+  defaults: StageModel = { model: DEFAULT_MODEL, provider: DEFAULT_PROVIDER.name },
+): {
   model: string;
   provider: string;
   content: string;
@@ -24,13 +118,13 @@ export function extractPropertiesFromMessage(message: Omit<Message, 'id'>): {
    * Extract model
    * const modelMatch = message.content.match(MODEL_REGEX);
    */
-  const model = modelMatch ? modelMatch[1] : DEFAULT_MODEL;
+  const model = modelMatch ? modelMatch[1] : defaults.model;
 
   /*
    * Extract provider
    * const providerMatch = message.content.match(PROVIDER_REGEX);
    */
-  const provider = providerMatch ? providerMatch[1] : DEFAULT_PROVIDER.name;
+  const provider = providerMatch ? providerMatch[1] : defaults.provider;
 
   const cleanedContent = Array.isArray(message.content)
     ? message.content.map((item) => {
@@ -48,6 +142,41 @@ export function extractPropertiesFromMessage(message: Omit<Message, 'id'>): {
   return { model, provider, content: cleanedContent };
 }
 
+/**
+ * Flattens a message to text for the stages that only read text, like the summary and context selection.
+ * Images are not sent to those models, a note keeps the fact that the user attached them
+ * @param message A message with string or multimodal content
+ * @returns The text parts joined, followed by the image note
+ */
+export function getMessageText(message: Pick<Message, 'content'>): string {
+  if (!Array.isArray(message.content)) {
+    return message.content;
+  }
+
+  const parts = message.content as { type: string; text?: string }[];
+  const text = parts
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text || '')
+    .join('\n');
+  const images = parts.filter((part) => part.type === 'image').length;
+
+  return images ? `${text}\n[${images} image${images > 1 ? 's' : ''} attached]` : text;
+}
+
+/**
+ * Brings the forms a project file path takes (absolute WebContainer paths, `./` paths, leading slashes from the
+ * client's file map) to the one relative form used in context file maps and annotations
+ * @param path A project file path in any of those forms
+ * @returns The path relative to the project root
+ */
+export function normalizeProjectPath(path: string): string {
+  return path
+    .trim()
+    .replace(new RegExp(`^${WORK_DIR}(?=/|$)`), '')
+    .replace(/^(?:\.?\/)+/, '')
+    .replace(/\/+$/, '');
+}
+
 export function simplifyBoltActions(input: string): string {
   // Using regex to match boltAction tags that have type="file"
   const regex = /(<boltAction[^>]*type="file"[^>]*>)([\s\S]*?)(<\/boltAction>)/g;
@@ -62,8 +191,7 @@ export function createFilesContext(files: FileMap, useRelativePath?: boolean) {
   const ig = ignore().add(IGNORE_PATTERNS);
   let filePaths = Object.keys(files);
   filePaths = filePaths.filter((x) => {
-    const relPath = x.replace('/home/project/', '');
-    return !ig.ignores(relPath);
+    return !ig.ignores(normalizeProjectPath(x));
   });
 
   const fileContexts = filePaths
@@ -83,7 +211,7 @@ export function createFilesContext(files: FileMap, useRelativePath?: boolean) {
       let filePath = path;
 
       if (useRelativePath) {
-        filePath = path.replace('/home/project/', '');
+        filePath = normalizeProjectPath(path);
       }
 
       return `<boltAction type="file" filePath="${filePath}">${codeWithLinesNumbers}</boltAction>`;
@@ -92,39 +220,38 @@ export function createFilesContext(files: FileMap, useRelativePath?: boolean) {
   return `<boltArtifact id="code-content" title="Code Content" >\n${fileContexts.join('\n')}\n</boltArtifact>`;
 }
 
+/**
+ * Finds the latest chat summary and code context attached to earlier answers. Not every answer carries both,
+ * e.g. short chats skip the summary, so the search goes back through the history until each is found
+ * @param messages The chat history, with the annotations the client sent back
+ * @returns The latest `chatSummary` and `codeContext` annotations, undefined when there is none
+ */
 export function extractCurrentContext(messages: Message[]) {
-  const lastAssistantMessage = messages.filter((x) => x.role == 'assistant').slice(-1)[0];
-
-  if (!lastAssistantMessage) {
-    return { summary: undefined, codeContext: undefined };
-  }
-
   let summary: ContextAnnotation | undefined;
   let codeContext: ContextAnnotation | undefined;
 
-  if (!lastAssistantMessage.annotations?.length) {
-    return { summary: undefined, codeContext: undefined };
-  }
-
-  for (let i = 0; i < lastAssistantMessage.annotations.length; i++) {
-    const annotation = lastAssistantMessage.annotations[i];
+  for (let i = messages.length - 1; i >= 0 && !(summary && codeContext); i--) {
+    const { role, annotations } = messages[i];
 
-    if (!annotation || typeof annotation !== 'object') {
+    if (role !== 'assistant' || !annotations?.length) {
       continue;
     }
 
-    if (!(annotation as any).type) {
-      continue;
-    }
+    // A message's annotations are in the order they were written, the last of each type is the current one
+    for (let j = annotations.length - 1; j >= 0; j--) {
+      const annotation = annotations[j];
 
-    const annotationObject = annotation as any;
+      if (!annotation || typeof annotation !== 'object' || Array.isArray(annotation)) {
+        continue;
+      }
 
-    if (annotationObject.type === 'codeContext') {
-      codeContext = annotationObject;
-      break;
-    } else if (annotationObject.type === 'chatSummary') {
-      summary = annotationObject;
-      break;
+      const annotationObject = annotation as ContextAnnotation;
+
+      if (annotationObject.type === 'chatSummary' && !summary) {
+        summary = annotationObject;
+      } else if (annotationObject.type === 'codeContext' && !codeContext) {
+        codeContext = annotationObject;
+      }
     }
   }
 
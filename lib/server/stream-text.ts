@@ -1,12 +1,22 @@
-import { convertToCoreMessages, streamText as _streamText, type Message } from 'ai';
-import { getSystemPrompt } from '../prompt';
-import { DEFAULT_MODEL } from '../constants';
+import {
+  convertToCoreMessages,
+  streamText as _streamText,
+  type CoreMessage,
+  type ImagePart,
+  type Message,
+  type TextPart,
+} from 'ai';
+import { getSystemPrompt, getToolsPrompt } from '../prompt';
+import { PromptLibrary, type CustomPrompt } from '../prompt-library';
+import { DEFAULT_MODEL, DEFAULT_MODEL_ROUTING } from '../constants';
 import { WORK_DIR, MODIFICATIONS_TAG_NAME, allowedHTMLElements } from '../prompt';
 import { createFilesContext, extractPropertiesFromMessage } from './serverUtils';
 import { getFilePaths } from './select-context';
-import { DEFAULT_PROVIDER } from '../provider';
-import type { Env, IProviderSetting } from '../../types/index';
-import type { FileMap } from '../constants';
+import { DEFAULT_PROVIDER, getProvider, resolveModel } from '../provider';
+import { getFallbackCandidates, withModelFallback, type ModelSelectedInfo } from './model-fallback';
+import { planTokenBudget } from './token-budget';
+import { getModelFamily } from '../tokenizer';
+import type { Env, IProviderSetting, FileMap, StageModel, TokenBudget } from '../../types/index';
 
 export type Messages = Message[];
 
@@ -22,8 +32,55 @@ export interface StreamingOptions extends Omit<Parameters<typeof _streamText>[0]
 }
 
 
-// Fixed model settings for google/gemini-2.5-pro-preview-03-25
-const FIXED_MAX_OUTPUT = 65535;
+// Converts one item of a multimodal message's content array into a prompt part
+const toContentPart = (item: any): TextPart | ImagePart => {
+  if (typeof item === 'string') {
+    return { type: 'text', text: item };
+  }
+
+  if (item && typeof item === 'object') {
+    if (item.type === 'image' && item.image) {
+      return { type: 'image', image: item.image, mimeType: item.mimeType };
+    }
+
+    if (item.type === 'text') {
+      return { type: 'text', text: item.text || '' };
+    }
+  }
+
+  // Default fallback for unknown formats
+  return { type: 'text', text: String(item || '') };
+};
+
+// Only user messages can carry images, system and assistant messages keep their text
+const toCoreMessage = (role: Message['role'], parts: Array<TextPart | ImagePart>): CoreMessage => {
+  const text = () => parts.map((part) => (part.type === 'text' ? part.text : '')).join('');
+
+  switch (role) {
+    case 'system':
+      return { role: 'system', content: text() };
+    case 'assistant':
+      return { role: 'assistant', content: text() };
+    default:
+      return { role: 'user', content: parts };
+  }
+};
+
+// Waits for the first stream part so a failed request throws here instead of reaching the client
+async function ensureStreamStarted(result: ReturnType<typeof _streamText>) {
+  const reader = result.fullStream.getReader();
+
+  try {
+    const { value } = await reader.read();
+
+    if (value?.type === 'error') {
+      throw value.error;
+    }
+  } finally {
+    // fullStream is a tee of the result, cancelling this copy leaves the others intact
+    reader.cancel().catch(() => {});
+  }
+}
 
 export async function streamText(props: {
   messages: Omit<Message, 'id'>[];
@@ -33,11 +90,18 @@ export async function streamText(props: {
   files?: FileMap;
   providerSettings?: Record<string, IProviderSetting>;
   promptId?: string;
+  // The user's own prompt when promptId refers to a custom prompt
+  customPrompt?: CustomPrompt;
   contextOptimization?: boolean;
   contextFiles?: FileMap;
   summary?: string;
   messageSliceId?: number;
   promptEnhancing?: boolean;
+  // The routed model for this call, takes precedence over the message tags
+  model?: StageModel;
+  onModelSelected?: (info: ModelSelectedInfo) => void;
+  // Receives how the request was fitted into the model's context window
+  onTokenBudget?: (budget: TokenBudget) => void;
 }) {
   const {
     messages,
@@ -47,21 +111,24 @@ export async function streamText(props: {
     files,
     providerSettings,
     promptId,
+    customPrompt,
     contextOptimization,
     contextFiles,
     summary,
     promptEnhancing,
+    model: stageModel,
+    onModelSelected,
+    onTokenBudget,
   } = props;
   
-  // Force use of DEFAULT_MODEL only
   let currentModel = DEFAULT_MODEL;
-  if (promptEnhancing) {
-    currentModel = 'openai/gpt-4o-mini';
-  }
-  
+  let currentProvider = DEFAULT_PROVIDER.name;
+
   let processedMessages = messages.map((message) => {
     if (message.role === 'user') {
-      const { content } = extractPropertiesFromMessage(message);
+      const { model, provider, content } = extractPropertiesFromMessage(message);
+      currentModel = model;
+      currentProvider = provider;
       return { ...message, content };
     } else if (message.role == 'assistant') {
       let content = message.content;
@@ -74,16 +141,27 @@ export async function streamText(props: {
     return message;
   });
 
-  const provider = DEFAULT_PROVIDER;
+  const routedModel = stageModel || (promptEnhancing ? DEFAULT_MODEL_ROUTING.enhancer : undefined);
 
-  // Simple prompt library implementation
-  const getPromptFromLibrary = (promptId: string, options: any) => {
-    // Default implementation - just return system prompt
-    return getSystemPrompt(options.cwd);
-  };
+  if (routedModel) {
+    currentModel = routedModel.model;
+    currentProvider = routedModel.provider;
+  }
+
+  const provider = getProvider(currentProvider);
+
+  // Verify the requested model exists and size the output limit to it
+  const resolvedModel = await resolveModel({
+    model: currentModel,
+    provider,
+    serverEnv,
+    apiKeys,
+    providerSettings,
+  });
+  currentModel = resolvedModel.name;
 
-  let systemPrompt = promptId ? 
-    getPromptFromLibrary(promptId, {
+  let systemPrompt = promptId ?
+    PromptLibrary.getPromptFromLibrary(promptId, {
       cwd: WORK_DIR,
       allowedHtmlElements: allowedHTMLElements,
       modificationTagName: MODIFICATIONS_TAG_NAME,
@@ -92,16 +170,49 @@ export async function streamText(props: {
         hasSelectedProject: options?.supabaseConnection?.hasSelectedProject || false,
         credentials: options?.supabaseConnection?.credentials || undefined,
       },
-    }) : getSystemPrompt();
+    }, customPrompt) : getSystemPrompt();
 
-  if (files && contextFiles && contextOptimization) {
-    const codeContext = createFilesContext(contextFiles, true);
-    const filePaths = getFilePaths(files);
+  // Tool-calling mode, tell the model what it can look up instead of guessing
+  if (options?.tools) {
+    systemPrompt = `${systemPrompt}\n${getToolsPrompt('runCommand' in options.tools)}`;
+  }
+
+  const useCodeContext = Boolean(files && contextFiles && contextOptimization);
+
+  if (useCodeContext && summary) {
+    if (props.messageSliceId) {
+      processedMessages = processedMessages.slice(props.messageSliceId);
+    } else {
+      const lastMessage = processedMessages.pop();
+
+      if (lastMessage) {
+        processedMessages = [lastMessage];
+      }
+    }
+  }
+
+  // Trim history and context to fit the model's window before the prompt is assembled
+  const plan = planTokenBudget({
+    contextLength: resolvedModel.contextLength,
+    maxOutputTokens: resolvedModel.maxTokenAllowed,
+    modelFamily: getModelFamily(currentModel),
+    systemPrompt,
+    messages: processedMessages,
+    filePaths: useCodeContext ? getFilePaths(files!) : [],
+    contextFiles: useCodeContext ? contextFiles : {},
+    summary: useCodeContext ? summary : undefined,
+  });
+  const maxOutputTokens = plan.maxOutputTokens;
+  processedMessages = plan.messages;
+  onTokenBudget?.(plan.budget);
+
+  if (useCodeContext) {
+    const codeContext = createFilesContext(plan.contextFiles, true);
 
     systemPrompt = `${systemPrompt}
 Below are all the files present in the project:
 ---
-${filePaths.join('\n')}
+${plan.filePaths.join('\n')}
 ---
 
 Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
@@ -116,79 +227,68 @@ ${codeContext}
       below is the chat history till now
 CHAT SUMMARY:
 ---
-${props.summary}
+${summary}
 ---
 `;
-
-      if (props.messageSliceId) {
-        processedMessages = processedMessages.slice(props.messageSliceId);
-      } else {
-        const lastMessage = processedMessages.pop();
-
-        if (lastMessage) {
-          processedMessages = [lastMessage];
-        }
-      }
     }
   }
 
   console.info(`Sending llm call to ${provider.name} with model ${currentModel}`);
 
-  // Store original messages for reference
-  const originalMessages = [...messages];
-  const hasMultimodalContent = originalMessages.some((msg) => Array.isArray(msg.content));
+  // Calls the requested model, falling back down the chain when the request itself fails
+  const callModel = (messagesForCall: CoreMessage[]) =>
+    withModelFallback({
+      task: 'response',
+      candidates: getFallbackCandidates('response', currentModel, provider, serverEnv),
+      onModelSelected,
+      abortSignal: options?.abortSignal,
+      run: async (candidate) => {
+        const isRequestedModel = candidate.model === currentModel && candidate.provider === provider;
+        const maxTokens = isRequestedModel
+          ? maxOutputTokens
+          : (await resolveModel({ model: candidate.model, provider: candidate.provider, serverEnv, apiKeys, providerSettings }))
+              .maxTokenAllowed;
 
-  try {
-    console.log('StreamText params:', {
-      modelName: currentModel,
-      hasMultimodalContent,
-      messageCount: processedMessages.length,
-      hasSummary: Boolean(summary),
-      hasContextFiles: Boolean(contextFiles),
+        const result = _streamText({
+          model: candidate.provider.createModelInstance({
+            model: candidate.model,
+            serverEnv: serverEnv || {},
+            apiKeys,
+            providerSettings,
+          }),
+          system: systemPrompt,
+          maxTokens,
+          // Retries are handled by withModelFallback
+          maxRetries: 0,
+          messages: messagesForCall,
+          ...options,
+        });
+
+        await ensureStreamStarted(result);
+
+        return result;
+      },
     });
-    
+
+  // Attached images arrive as content arrays, they go through the same trimming as plain text messages
+  const hasMultimodalContent = processedMessages.some((msg) => Array.isArray(msg.content));
+
+  try {
     if (hasMultimodalContent) {
       /*
        * For multimodal content, we need to preserve the original array structure
        * but make sure the roles are valid and content items are properly formatted
        */
-      const multimodalMessages = originalMessages.map((msg) => ({
-        role: msg.role === 'system' || msg.role === 'user' || msg.role === 'assistant' ? msg.role : 'user',
-        content: Array.isArray(msg.content)
-          ? msg.content.map((item) => {
-              // Ensure each content item has the correct format
-              if (typeof item === 'string') {
-                return { type: 'text', text: item };
-              }
-
-              if (item && typeof item === 'object') {
-                if (item.type === 'image' && item.image) {
-                  return { type: 'image', image: item.image };
-                }
-
-                if (item.type === 'text') {
-                  return { type: 'text', text: item.text || '' };
-                }
-              }
-
-              // Default fallback for unknown formats
-              return { type: 'text', text: String(item || '') };
-            })
-          : [{ type: 'text', text: typeof msg.content === 'string' ? msg.content : String(msg.content || '') }],
-      }));
+      const multimodalMessages = processedMessages.map((msg) =>
+        toCoreMessage(
+          msg.role,
+          Array.isArray(msg.content)
+            ? msg.content.map(toContentPart)
+            : [{ type: 'text', text: typeof msg.content === 'string' ? msg.content : String(msg.content || '') }],
+        ),
+      );
 
-      return await _streamText({
-        model: provider.getModelInstance({
-          model: currentModel,
-          serverEnv: serverEnv || {},
-          apiKeys,
-          providerSettings,
-        }) as any,
-        system: systemPrompt,
-        maxTokens: FIXED_MAX_OUTPUT,
-        messages: multimodalMessages as any,
-        ...options,
-      });
+      return await callModel(multimodalMessages);
     } else {
       // For non-multimodal content, we use the standard approach
       const normalizedTextMessages = processedMessages.map((msg) => ({
@@ -196,18 +296,7 @@ ${props.summary}
         content: typeof msg.content === 'string' ? msg.content : String(msg.content || ''),
       }));
 
-      return await _streamText({
-        model: provider.getModelInstance({
-          model: currentModel,
-          serverEnv: serverEnv || {},
-          apiKeys,
-          providerSettings,
-        }) as any,
-        system: systemPrompt,
-        maxTokens: FIXED_MAX_OUTPUT,
-        messages: convertToCoreMessages(normalizedTextMessages),
-        ...options,
-      });
+      return await callModel(convertToCoreMessages(normalizedTextMessages));
     }
   } catch (error: any) {
     console.error('Error in streamText:', error);
@@ -238,30 +327,11 @@ ${props.summary}
           textContent = String(msg.content || '');
         }
 
-        return {
-          role: msg.role === 'system' || msg.role === 'user' || msg.role === 'assistant' ? msg.role : 'user',
-          content: [
-            {
-              type: 'text',
-              text: textContent,
-            },
-          ],
-        };
+        return toCoreMessage(msg.role, [{ type: 'text', text: textContent }]);
       });
 
       // Try one more time with the fallback format
-      return await _streamText({
-        model: provider.getModelInstance({
-          model: currentModel,
-          serverEnv: serverEnv || {},
-          apiKeys,
-          providerSettings,
-        }) as any,
-        system: systemPrompt,
-        maxTokens: FIXED_MAX_OUTPUT,
-        messages: fallbackMessages as any,
-        ...options,
-      });
+      return await callModel(fallbackMessages);
     }
 
     // If it's not a format error, re-throw the original error
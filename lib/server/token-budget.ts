@@ -0,0 +1,188 @@
+import { createFilesContext } from './serverUtils';
+import { countMessageTokens, countTokens, type ModelFamily } from '../tokenizer';
+import type { FileMap, TokenBudget } from '../../types/index';
+
+// Headroom for estimated token counts and the formatting providers add around each request
+const SAFETY_MARGIN_RATIO = 0.05;
+
+// Some catalogs report a max output equal to the whole window, so the reserve is capped
+const MAX_OUTPUT_SHARE = 0.5;
+
+// Files are not cut below this, a smaller slice rarely helps the model
+const MIN_TRUNCATED_FILE_TOKENS = 500;
+
+// Providers bill an image by its size, attachments are downscaled so this covers the largest of them
+const IMAGE_TOKEN_ESTIMATE = 1600;
+
+type BudgetMessage = { id?: string; role: string; content: unknown };
+
+export interface TokenBudgetPlan<T extends BudgetMessage> {
+  messages: T[];
+  contextFiles: FileMap;
+  filePaths: string[];
+  // Output tokens to request, never more than the reserve
+  maxOutputTokens: number;
+  budget: TokenBudget;
+}
+
+const getTextContent = (content: unknown): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  if (Array.isArray(content)) {
+    return content.map((item) => (typeof item === 'string' ? item : item?.text || '')).join('\n');
+  }
+
+  return String(content || '');
+};
+
+const countImages = (content: unknown) =>
+  Array.isArray(content) ? content.filter((item) => item?.type === 'image').length : 0;
+
+/**
+ * Counts the tokens of a chat history, text and attached images alike
+ * @param messages Messages with string or multimodal content
+ * @param modelFamily The tokenizer family of the model
+ * @returns The token count of each message, in order
+ */
+export function countHistoryTokens(messages: BudgetMessage[], modelFamily: ModelFamily): number[] {
+  return messages.map(
+    (message) =>
+      countMessageTokens([{ id: message.id, role: message.role, content: getTextContent(message.content) }], modelFamily) +
+      countImages(message.content) * IMAGE_TOKEN_ESTIMATE,
+  );
+}
+
+// Cuts content proportionally to the target, on a line boundary where there is one
+const truncateContent = (content: string, tokens: number, targetTokens: number) => {
+  const cut = content.slice(0, Math.floor(content.length * (targetTokens / tokens)));
+  const lastNewline = cut.lastIndexOf('\n');
+  const kept = lastNewline > 0 ? cut.slice(0, lastNewline) : cut;
+
+  return `${kept}\n... [truncated ${content.length - kept.length} characters to fit the context window]`;
+};
+
+/**
+ * Fits the system prompt, context buffer and chat history into a model's context window.
+ * When they overflow, the oldest history is trimmed first, then the lowest-priority context files
+ * are dropped, then the remaining large files are truncated.
+ * @param options The model's limits and the parts of the request; contextFiles are ordered by priority, highest first
+ * @returns The trimmed messages and files, and how the window was allocated
+ */
+export function planTokenBudget<T extends BudgetMessage>(options: {
+  contextLength: number;
+  maxOutputTokens: number;
+  modelFamily: ModelFamily;
+  systemPrompt: string;
+  messages: T[];
+  filePaths?: string[];
+  contextFiles?: FileMap;
+  summary?: string;
+}): TokenBudgetPlan<T> {
+  const { contextLength, modelFamily, systemPrompt, summary } = options;
+  const reservedOutput = Math.min(options.maxOutputTokens, Math.floor(contextLength * MAX_OUTPUT_SHARE));
+  const inputBudget = Math.floor(contextLength * (1 - SAFETY_MARGIN_RATIO)) - reservedOutput;
+
+  let messages = [...options.messages];
+  let filePaths = [...(options.filePaths || [])];
+  const contextFiles: FileMap = { ...options.contextFiles };
+
+  const countFile = (path: string) => countTokens(createFilesContext({ [path]: contextFiles[path] }, true), modelFamily);
+
+  const messageTokens = countHistoryTokens(messages, modelFamily);
+  const contextPaths = Object.keys(contextFiles);
+  const fileTokens: Record<string, number> = Object.fromEntries(contextPaths.map((path) => [path, countFile(path)]));
+
+  const systemPromptTokens = countTokens(systemPrompt, modelFamily);
+  const summaryTokens = summary ? countTokens(summary, modelFamily) : 0;
+  let fileListTokens = countTokens(filePaths.join('\n'), modelFamily);
+  let historyTokens = messageTokens.reduce((total, tokens) => total + tokens, 0);
+  let contextBufferTokens = contextPaths.reduce((total, path) => total + fileTokens[path], 0);
+
+  const getOverflow = () =>
+    systemPromptTokens + summaryTokens + fileListTokens + historyTokens + contextBufferTokens - inputBudget;
+
+  // 1. Trim the oldest history, always keeping the latest message
+  let droppedMessages = 0;
+
+  const dropOldestMessage = () => {
+    historyTokens -= messageTokens[droppedMessages];
+    droppedMessages++;
+    messages = messages.slice(1);
+  };
+
+  while (messages.length > 1 && getOverflow() > 0) {
+    dropOldestMessage();
+  }
+
+  // Some providers reject a history that opens with an assistant turn
+  while (droppedMessages > 0 && messages.length > 1 && messages[0].role !== 'user') {
+    dropOldestMessage();
+  }
+
+  // 2. Drop the lowest-priority context files, keeping the most relevant one
+  const droppedFiles: string[] = [];
+  const keptPaths = [...contextPaths];
+
+  while (keptPaths.length > 1 && getOverflow() > 0) {
+    const path = keptPaths.pop() as string;
+
+    contextBufferTokens -= fileTokens[path];
+    droppedFiles.push(path);
+    delete contextFiles[path];
+  }
+
+  // 3. Truncate the remaining files, largest first
+  const truncatedFiles: string[] = [];
+
+  for (const path of [...keptPaths].sort((a, b) => fileTokens[b] - fileTokens[a])) {
+    const overflow = getOverflow();
+    const file = contextFiles[path];
+    const tokens = fileTokens[path];
+
+    if (overflow <= 0 || file?.type !== 'file' || tokens <= MIN_TRUNCATED_FILE_TOKENS) {
+      continue;
+    }
+
+    const targetTokens = Math.max(MIN_TRUNCATED_FILE_TOKENS, tokens - overflow);
+
+    contextFiles[path] = { ...file, content: truncateContent(file.content, tokens, targetTokens) };
+
+    const truncatedTokens = countFile(path);
+    contextBufferTokens += truncatedTokens - tokens;
+    truncatedFiles.push(path);
+  }
+
+  // Last resort for very large projects: shorten the file listing itself
+  if (getOverflow() > 0 && filePaths.length > 0) {
+    const keepRatio = Math.max(0, 1 - getOverflow() / fileListTokens);
+    const keptCount = Math.floor(filePaths.length * keepRatio);
+
+    filePaths = [...filePaths.slice(0, keptCount), `... and ${filePaths.length - keptCount} more files`];
+    fileListTokens = countTokens(filePaths.join('\n'), modelFamily);
+  }
+
+  if (getOverflow() > 0) {
+    console.warn(`Request still exceeds the input budget of ${inputBudget} tokens by ${getOverflow()} tokens`);
+  }
+
+  return {
+    messages,
+    contextFiles,
+    filePaths,
+    maxOutputTokens: reservedOutput,
+    budget: {
+      contextLength,
+      reservedOutput,
+      systemPrompt: systemPromptTokens,
+      fileList: fileListTokens,
+      contextBuffer: contextBufferTokens,
+      summary: summaryTokens,
+      history: historyTokens,
+      droppedMessages,
+      droppedFiles,
+      truncatedFiles,
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { globalSingleton } from './global-singleton';
+
+// How long a tool call waits for the browser before the model is told it got no result
+const TOOL_RESULT_TIMEOUT_MS = 2 * 60 * 1000;
+
+interface PendingToolCall {
+  resolve: (result: unknown) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pendingToolCalls = globalSingleton('boltPendingToolCalls', () => new Map<string, PendingToolCall>());
+
+const toKey = (generationId: string, toolCallId: string) => `${generationId}:${toolCallId}`;
+
+/**
+ * Waits for the browser to run a tool call it received through the data stream and post back the result
+ * @param generationId The generation the call belongs to
+ * @param toolCallId The id of the call, as sent in the stream's tool call part
+ * @param abortSignal The generation's abort signal
+ * @returns The result posted by the browser, or an `{ error }` object when none arrives in time
+ */
+export function waitForToolResult(generationId: string, toolCallId: string, abortSignal?: AbortSignal): Promise<unknown> {
+  const key = toKey(generationId, toolCallId);
+
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(abortSignal.reason);
+      return;
+    }
+
+    const settle = () => {
+      clearTimeout(pending.timer);
+      pendingToolCalls.delete(key);
+      abortSignal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      settle();
+      reject(abortSignal?.reason);
+    };
+
+    const pending: PendingToolCall = {
+      resolve: (result) => {
+        settle();
+        resolve(result);
+      },
+      // An error result lets the model carry on without the tool instead of failing the response
+      timer: setTimeout(() => {
+        settle();
+        resolve({ error: `No result from the browser within ${TOOL_RESULT_TIMEOUT_MS / 1000}s` });
+      }, TOOL_RESULT_TIMEOUT_MS),
+    };
+
+    pendingToolCalls.set(key, pending);
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Hands the browser's result of a tool call to the waiting model call
+ * @returns False when no call with this id is waiting, e.g. it already timed out
+ */
+export function submitToolResult(generationId: string, toolCallId: string, result: unknown): boolean {
+  const pending = pendingToolCalls.get(toKey(generationId, toolCallId));
+
+  if (!pending) {
+    return false;
+  }
+
+  pending.resolve(result);
+
+  return true;
+}
@@ -0,0 +1,215 @@
+import { generateId, type LanguageModelUsage } from 'ai';
+import { timingSafeEqual } from 'crypto';
+import type {
+  ChatError,
+  ChatTrace,
+  ChatTraceSummary,
+  PipelineStage,
+  TraceAttributeValue,
+  TraceSpan,
+} from '../../types/index';
+import type { FallbackTask } from '../constants';
+import { globalSingleton } from './global-singleton';
+
+// Oldest traces are dropped beyond this, they only exist to debug recent requests
+const MAX_TRACES = 100;
+
+const traces = globalSingleton<ChatTrace[]>('boltTraces', () => []);
+
+/**
+ * Traces hold file paths and models of every request, so they are only recorded with TRACES_ENABLED=true
+ */
+export function isTracingEnabled(): boolean {
+  return process.env.TRACES_ENABLED === 'true';
+}
+
+/**
+ * Guards the traces routes: they answer only when tracing is enabled and the request carries TRACES_TOKEN as a
+ * bearer token. Without a configured token nobody can read the traces
+ * @param request The request to a traces route
+ * @returns The error response to send, undefined when the request may go ahead
+ */
+export function getTraceAccessError(request: Request): Response | undefined {
+  if (!isTracingEnabled()) {
+    return Response.json({ error: 'Tracing is disabled, set TRACES_ENABLED=true to enable it' }, { status: 404 });
+  }
+
+  const expected = Buffer.from(process.env.TRACES_TOKEN || '');
+  const provided = Buffer.from((request.headers.get('Authorization') || '').replace(/^Bearer\s+/i, ''));
+
+  if (!expected.length || expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return Response.json({ error: 'Enter the TRACES_TOKEN set on the server to view traces' }, { status: 401 });
+  }
+
+  return undefined;
+}
+
+/**
+ * Lists the stored traces, newest first
+ */
+export function listTraces(): ChatTraceSummary[] {
+  return traces
+    .slice()
+    .reverse()
+    .map(({ spans, selectedFiles: _selectedFiles, ...trace }) => ({ ...trace, spanCount: spans.length }));
+}
+
+export function getTrace(id: string): ChatTrace | undefined {
+  return traces.find((trace) => trace.id === id);
+}
+
+export function clearTraces() {
+  traces.length = 0;
+}
+
+// Spans of the continuation segments belong to the response task
+const SPAN_TASKS: Partial<Record<TraceSpan['name'], FallbackTask>> = {
+  summary: 'summary',
+  context: 'context',
+  response: 'response',
+  continuation: 'response',
+};
+
+const addUsage = (span: TraceSpan, usage: LanguageModelUsage) => {
+  const current = span.usage || { completionTokens: 0, promptTokens: 0, totalTokens: 0 };
+
+  span.usage = {
+    completionTokens: current.completionTokens + (usage.completionTokens || 0),
+    promptTokens: current.promptTokens + (usage.promptTokens || 0),
+    totalTokens: current.totalTokens + (usage.totalTokens || 0),
+  };
+};
+
+/**
+ * Records the stages of one chat request. The trace is stored as soon as it starts, so running requests show up too
+ */
+export class RequestTrace {
+  private readonly trace: ChatTrace;
+  private spanCounter = 0;
+
+  constructor(trace: Pick<ChatTrace, 'model' | 'provider' | 'messageCount' | 'historyTokens'>) {
+    this.trace = {
+      ...trace,
+      // Its own id, the generation id would let anyone reading traces control the generation
+      id: generateId(),
+      startedAt: Date.now(),
+      status: 'running',
+      selectedFiles: [],
+      usage: { completionTokens: 0, promptTokens: 0, totalTokens: 0 },
+      spans: [],
+    };
+
+    if (isTracingEnabled()) {
+      traces.push(this.trace);
+      traces.splice(0, Math.max(0, traces.length - MAX_TRACES));
+    }
+  }
+
+  get id() {
+    return this.trace.id;
+  }
+
+  /**
+   * Starts a timed span
+   * @param name The pipeline stage, or `tool` for a tool call
+   * @param attributes Details known up front
+   * @returns The span, to be passed to endSpan
+   */
+  startSpan(name: PipelineStage | 'tool', attributes: Record<string, TraceAttributeValue> = {}): TraceSpan {
+    const span: TraceSpan = {
+      id: `${this.trace.id}-${++this.spanCounter}`,
+      name,
+      startedAt: Date.now(),
+      status: 'running',
+      attributes,
+      events: [],
+    };
+
+    this.trace.spans.push(span);
+
+    return span;
+  }
+
+  endSpan(span: TraceSpan, attributes: Record<string, TraceAttributeValue> = {}, error?: ChatError) {
+    if (span.status !== 'running') return;
+
+    span.endedAt = Date.now();
+    span.durationMs = span.endedAt - span.startedAt;
+    span.status = error ? 'error' : 'ok';
+    span.attributes = { ...span.attributes, ...attributes };
+    span.error = error;
+  }
+
+  // The running span a model call of this task belongs to
+  private findTaskSpan(task: FallbackTask) {
+    return this.trace.spans
+      .slice()
+      .reverse()
+      .find((span) => span.status === 'running' && SPAN_TASKS[span.name] === task);
+  }
+
+  recordModel(task: FallbackTask, model: string, provider: string, fallbackFrom?: string) {
+    const span = this.findTaskSpan(task);
+
+    if (span) {
+      span.model = model;
+      span.provider = provider;
+      span.fallbackFrom = fallbackFrom;
+    }
+  }
+
+  recordUsage(task: FallbackTask, usage: LanguageModelUsage) {
+    const span = this.findTaskSpan(task);
+
+    if (span) {
+      addUsage(span, usage);
+    }
+
+    this.trace.usage = {
+      completionTokens: this.trace.usage.completionTokens + (usage.completionTokens || 0),
+      promptTokens: this.trace.usage.promptTokens + (usage.promptTokens || 0),
+      totalTokens: this.trace.usage.totalTokens + (usage.totalTokens || 0),
+    };
+  }
+
+  // Adds details to the running span of a task, e.g. how the prompt was fitted into the context window
+  recordAttributes(task: FallbackTask, attributes: Record<string, TraceAttributeValue>) {
+    const span = this.findTaskSpan(task);
+
+    if (span) {
+      span.attributes = { ...span.attributes, ...attributes };
+    }
+  }
+
+  // Notes something that happened in the running span of a task, in place of a log line
+  recordEvent(task: FallbackTask, name: string, attributes: Record<string, TraceAttributeValue> = {}) {
+    const span = this.findTaskSpan(task);
+
+    if (span) {
+      span.events.push({ name, at: Date.now(), attributes });
+    }
+  }
+
+  setSelectedFiles(files: string[]) {
+    this.trace.selectedFiles = files;
+  }
+
+  setCost(cost: number | undefined) {
+    this.trace.usage = { ...this.trace.usage, cost };
+  }
+
+  /**
+   * Ends the trace and whatever spans are still running
+   * @param status How the request ended
+   * @param error The error it failed with
+   */
+  finish(status: Exclude<ChatTrace['status'], 'running'>, error?: ChatError) {
+    if (this.trace.status !== 'running') return;
+
+    this.trace.spans.forEach((span) => this.endSpan(span, {}, status === 'error' ? error : undefined));
+    this.trace.endedAt = Date.now();
+    this.trace.durationMs = this.trace.endedAt - this.trace.startedAt;
+    this.trace.status = status;
+    this.trace.error = error;
+  }
+}
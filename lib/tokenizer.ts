@@ -1,19 +1,67 @@
-import { encode } from 'gpt-tokenizer';
+import { encode as encodeCl100k } from 'gpt-tokenizer/encoding/cl100k_base';
+import { encode as encodeO200k } from 'gpt-tokenizer/encoding/o200k_base';
 
-type ModelFamily = 'gpt' | 'claude' | 'gemini' | 'default';
+export type ModelFamily = 'gpt' | 'claude' | 'gemini' | 'default';
+
+/*
+ * Claude and Gemini tokenizers are not available offline, so their counts are estimated from cl100k.
+ * Claude 3+ splits English and code noticeably finer than cl100k, while Gemini's larger vocabulary
+ * lands close to it. The ratios lean high so the summary threshold errs on the side of summarizing.
+ */
+const CLAUDE_CL100K_RATIO = 1.2;
+const GEMINI_CL100K_RATIO = 1.05;
+
+const TOKENIZERS: Record<ModelFamily, (text: string) => number> = {
+  // GPT-4o, GPT-4.1 and the o-series all use o200k_base
+  gpt: (text) => encodeO200k(text).length,
+  claude: (text) => Math.ceil(encodeCl100k(text).length * CLAUDE_CL100K_RATIO),
+  gemini: (text) => Math.ceil(encodeCl100k(text).length * GEMINI_CL100K_RATIO),
+  default: (text) => encodeCl100k(text).length,
+};
+
+// Per-message overhead for role and separators
+const MESSAGE_METADATA_TOKENS = 4;
+
+// Message ids are stable for the life of a chat, so history is only encoded once per family
+const MAX_CACHED_MESSAGES = 5000;
+const messageTokenCache = new Map<string, number>();
+
+// FNV-1a, cheap next to encoding and available in the browser as well as on the server
+const hashContent = (content: string) => {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Detects which tokenizer family a model id belongs to
+ * @param model A model id such as 'openai/gpt-4.1' or 'claude-3-7-sonnet-latest'
+ * @returns The model family, 'default' when unknown
+ */
+export function getModelFamily(model: string): ModelFamily {
+  const name = model.toLowerCase();
+
+  if (name.includes('claude') || name.startsWith('anthropic/')) return 'claude';
+  if (name.includes('gemini') || name.includes('gemma') || name.startsWith('google/')) return 'gemini';
+  if (name.includes('gpt') || /(^|\/)o\d/.test(name) || name.startsWith('openai/')) return 'gpt';
+
+  return 'default';
+}
 
 /**
- * Counts tokens for various model families using the gpt-tokenizer
+ * Counts tokens with the tokenizer of the given model family, or a calibrated estimate where none exists offline
  * @param text The text to count tokens for
  * @param modelFamily The model family to use for counting ('gpt', 'claude', 'gemini', or 'default')
  * @returns The number of tokens in the text
  */
 export function countTokens(text: string, modelFamily: ModelFamily = 'default'): number {
   try {
-    // All major models (GPT, Claude, Gemini) use tokenizers based on similar principles
-    // gpt-tokenizer uses GPT-3/4 tokenization which is a good approximation for all of them
-    const tokens = encode(text);
-    return tokens.length;
+    return TOKENIZERS[modelFamily](text);
   } catch (error) {
     console.error('Error counting tokens:', error);
     // Fallback to rough character-based estimation if tokenizer fails
@@ -21,24 +69,44 @@ export function countTokens(text: string, modelFamily: ModelFamily = 'default'):
   }
 }
 
+const countCachedMessageTokens = (message: { id?: string; content: string }, modelFamily: ModelFamily) => {
+  if (!message.id) {
+    return countTokens(message.content, modelFamily);
+  }
+
+  // The same message is counted with and without its model tags, and can be edited under the same id,
+  // so each version of the content gets its own entry
+  const key = `${modelFamily}:${message.id}:${message.content.length}:${hashContent(message.content)}`;
+  const cached = messageTokenCache.get(key);
+
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const tokens = countTokens(message.content, modelFamily);
+
+  if (messageTokenCache.size >= MAX_CACHED_MESSAGES) {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    messageTokenCache.delete(messageTokenCache.keys().next().value as string);
+  }
+
+  messageTokenCache.set(key, tokens);
+
+  return tokens;
+};
+
 /**
- * Counts tokens in a message array
+ * Counts tokens in a message array, reusing cached counts for messages with an id
  * @param messages Array of messages to count tokens for
  * @param modelFamily The model family to use for token counting
  * @returns Total token count across all messages
  */
 export function countMessageTokens(
-  messages: Array<{ role: string; content: string }>,
+  messages: Array<{ id?: string; role: string; content: string }>,
   modelFamily: ModelFamily = 'default'
 ): number {
-  // Count tokens in each message and sum them
-  return messages.reduce((total, message) => {
-    // Add tokens for message content
-    const contentTokens = countTokens(message.content, modelFamily);
-    
-    // Add tokens for message metadata (role, etc.) - roughly 4 tokens per message
-    const metadataTokens = 4;
-    
-    return total + contentTokens + metadataTokens;
-  }, 0);
-} 
\ No newline at end of file
+  return messages.reduce(
+    (total, message) => total + countCachedMessageTokens(message, modelFamily) + MESSAGE_METADATA_TOKENS,
+    0,
+  );
+}
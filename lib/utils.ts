@@ -399,3 +399,9 @@ export function getTerminalTheme(overrides?: ITheme): ITheme {
     ...overrides,
   };
 }
+
+// Small amounts get more precision so a cheap message does not show as $0.00
+export const formatCost = (cost: number): string => {
+  if (cost > 0 && cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+};
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/server/rate-limit';
+
+const SESSION_MAX_AGE = 60 * 60 * 24 * 365;
+
+// Gives every client of the model routes a session cookie, so rate limits can follow it when RATE_LIMIT_KEY is `session`.
+// Clients can drop or forge the cookie, checkRateLimit counts each new session against the client's IP address
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const sessionId = crypto.randomUUID();
+
+  // Also set it on the request, so the very first call is already counted against the session
+  request.cookies.set(SESSION_COOKIE, sessionId);
+
+  const response = NextResponse.next({ request: { headers: request.headers } });
+
+  response.cookies.set(SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+
+  return response;
+}
+
+export const config = {
+  matcher: ['/api/chat/:path*', '/api/enhancer'],
+};
@@ -0,0 +1,16 @@
+import { atom } from 'nanostores';
+import type { ImageAttachment } from '@/types/index';
+
+// Images attached on the landing page, the prompt travels in the URL but these are too large for it
+export const pendingImagesStore = atom<ImageAttachment[]>([]);
+
+/**
+ * Reads and clears the images handed over with the initial prompt, so they are sent only once
+ */
+export const takePendingImages = (): ImageAttachment[] => {
+  const images = pendingImagesStore.get();
+
+  pendingImagesStore.set([]);
+
+  return images;
+};
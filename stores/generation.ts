@@ -0,0 +1,97 @@
+import { persistentMap } from '@nanostores/persistent';
+import type { ContextAnnotation } from '@/types/index';
+
+export interface GenerationSnapshot {
+  id: string;
+  // Characters of the server's data stream already processed
+  offset: number;
+  // The chat up to and including the partial assistant message
+  messages: {
+    id?: string;
+    role: 'user' | 'assistant';
+    content: string;
+    annotations?: ContextAnnotation[];
+    reasoning?: string;
+    reasoningMs?: number;
+  }[];
+  // Raw response text and file parser state, so file writing picks up where it stopped
+  partialResponse: string;
+  extraction: {
+    currentFilePath: string | null;
+    partialContent: string;
+    completedFiles: string[];
+    lastScanLength: number;
+    insideAction: boolean;
+    actionType: string | null;
+    actionFilePath: string | null;
+    currentActionStartIndex: number;
+  };
+  // Content of the files before the generation touched them, null for files it created
+  originalFiles: Record<string, string | null>;
+}
+
+// A generation that was still streaming when the page went away, persisted under `activeGeneration:<projectId>`
+export const activeGenerationStore = persistentMap<Record<string, GenerationSnapshot | undefined>>(
+  'activeGeneration:',
+  {},
+  {
+    encode: JSON.stringify,
+    decode: JSON.parse,
+  },
+);
+
+/**
+ * Persists the snapshot of a project's running generation. The partial response and original files of a large
+ * project can exceed the storage quota, then only the id and the chat before the answer are kept: the generation
+ * is replayed from its start, which also rewrites its files
+ */
+export const saveGenerationSnapshot = (projectId: string, snapshot: GenerationSnapshot) => {
+  try {
+    activeGenerationStore.setKey(projectId, snapshot);
+    return;
+  } catch (error) {
+    console.warn('Generation snapshot too large to store, keeping only what is needed to replay it:', error);
+  }
+
+  const { messages } = snapshot;
+  const lastMessage = messages[messages.length - 1];
+
+  try {
+    activeGenerationStore.setKey(projectId, {
+      id: snapshot.id,
+      offset: 0,
+      // The partial answer comes back with the replay, keeping it would show it twice
+      messages:
+        lastMessage?.role === 'assistant'
+          ? [...messages.slice(0, -1), { id: lastMessage.id, role: 'assistant', content: '' }]
+          : messages,
+      partialResponse: '',
+      extraction: {
+        currentFilePath: null,
+        partialContent: '',
+        completedFiles: [],
+        lastScanLength: 0,
+        insideAction: false,
+        actionType: null,
+        actionFilePath: null,
+        currentActionStartIndex: -1,
+      },
+      originalFiles: {},
+    });
+  } catch (error) {
+    console.error('Error storing the generation snapshot:', error);
+  }
+};
+
+/**
+ * Reads and clears the snapshot of a project's interrupted generation, so it is resumed only once
+ */
+export const takeGenerationSnapshot = (projectId: string): GenerationSnapshot | undefined => {
+  const snapshot = activeGenerationStore.get()[projectId];
+
+  if (snapshot) {
+    activeGenerationStore.setKey(projectId, undefined);
+  }
+
+  return snapshot;
+};
@@ -0,0 +1,28 @@
+import { atom } from 'nanostores';
+import { persistentMap } from '@nanostores/persistent';
+
+export interface ModelSelection {
+  model: string;
+  provider: string;
+}
+
+// Selected model per project, persisted in localStorage under `modelSelection:<projectId>`
+export const modelSelectionStore = persistentMap<Record<string, ModelSelection | undefined>>(
+  'modelSelection:',
+  {},
+  {
+    encode: JSON.stringify,
+    decode: JSON.parse,
+  },
+);
+
+export const setProjectModel = (projectId: string, selection: ModelSelection) => {
+  modelSelectionStore.setKey(projectId, selection);
+};
+
+// Bumped when provider settings change so model lists are fetched again
+export const modelsRevision = atom(0);
+
+export const refreshModels = () => {
+  modelsRevision.set(modelsRevision.get() + 1);
+};
@@ -0,0 +1,45 @@
+import { persistentAtom, persistentMap } from '@nanostores/persistent';
+import { CUSTOM_PROMPT_PREFIX, type CustomPrompt } from '@/lib/prompt-library';
+
+// Selected prompt id per project, persisted in localStorage under `promptSelection:<projectId>`
+export const promptSelectionStore = persistentMap<Record<string, string | undefined>>('promptSelection:', {});
+
+// The user's own prompts, kept in this browser only
+export const customPromptsStore = persistentAtom<CustomPrompt[]>('customPrompts', [], {
+  encode: JSON.stringify,
+  decode: JSON.parse,
+});
+
+export const setProjectPrompt = (projectId: string, promptId: string) => {
+  promptSelectionStore.setKey(projectId, promptId);
+};
+
+export const saveCustomPrompt = (prompt: Omit<CustomPrompt, 'id'> & { id?: string }): CustomPrompt => {
+  const saved: CustomPrompt = { ...prompt, id: prompt.id || `${CUSTOM_PROMPT_PREFIX}${Date.now().toString(36)}` };
+  const prompts = customPromptsStore.get();
+  const exists = prompts.some((p) => p.id === saved.id);
+
+  customPromptsStore.set(exists ? prompts.map((p) => (p.id === saved.id ? saved : p)) : [...prompts, saved]);
+
+  return saved;
+};
+
+export const removeCustomPrompt = (id: string) => {
+  customPromptsStore.set(customPromptsStore.get().filter((p) => p.id !== id));
+};
+
+/**
+ * Resolves the prompt to send for a project
+ * @returns The prompt id, plus the prompt itself when it is a custom one. Deleted custom prompts resolve to nothing.
+ */
+export const getProjectPrompt = (projectId: string): { promptId?: string; customPrompt?: CustomPrompt } => {
+  const promptId = promptSelectionStore.get()[projectId];
+
+  if (!promptId?.startsWith(CUSTOM_PROMPT_PREFIX)) {
+    return { promptId };
+  }
+
+  const customPrompt = customPromptsStore.get().find((p) => p.id === promptId);
+
+  return customPrompt ? { promptId, customPrompt } : {};
+};
@@ -0,0 +1,98 @@
+import { map } from 'nanostores';
+import { persistentAtom } from '@nanostores/persistent';
+import type { IProviderSetting, ModelRouting } from '@/types/index';
+
+// Cookie names read by the API routes (see getProviderSettingsFromCookies)
+const API_KEYS_COOKIE = 'apiKeys';
+const PROVIDERS_COOKIE = 'providers';
+const MODEL_ROUTING_COOKIE = 'modelRouting';
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+const readCookie = (name: string): Record<string, any> => {
+  if (typeof document === 'undefined') return {};
+
+  const entry = document.cookie
+    .split(';')
+    .map((cookie) => cookie.trim())
+    .find((cookie) => cookie.startsWith(`${name}=`));
+
+  if (!entry) return {};
+
+  try {
+    return JSON.parse(decodeURIComponent(entry.slice(name.length + 1)));
+  } catch (error) {
+    console.error(`Error reading ${name} cookie:`, error);
+    return {};
+  }
+};
+
+const writeCookie = (name: string, value: Record<string, any>) => {
+  document.cookie = `${name}=${encodeURIComponent(JSON.stringify(value))}; path=/; max-age=${COOKIE_MAX_AGE}; SameSite=Strict`;
+};
+
+// API keys, base URLs and organizations per provider, mirrored into the settings cookies
+export const providerSettingsStore = map<Record<string, IProviderSetting>>({});
+
+export const loadProviderSettings = () => {
+  const apiKeys: Record<string, string> = readCookie(API_KEYS_COOKIE);
+  const providers: Record<string, IProviderSetting> = readCookie(PROVIDERS_COOKIE);
+  const names = new Set([...Object.keys(apiKeys), ...Object.keys(providers)]);
+  const settings: Record<string, IProviderSetting> = {};
+
+  names.forEach((name) => {
+    settings[name] = { ...providers[name], apiToken: apiKeys[name] };
+  });
+
+  providerSettingsStore.set(settings);
+};
+
+export const saveProviderSettings = (settings: Record<string, IProviderSetting>) => {
+  const apiKeys: Record<string, string> = {};
+  const providers: Record<string, IProviderSetting> = {};
+
+  Object.entries(settings).forEach(([name, { apiToken, baseUrl, organization }]) => {
+    if (apiToken) {
+      apiKeys[name] = apiToken;
+    }
+
+    // Keys live only in the apiKeys cookie
+    if (baseUrl || organization) {
+      providers[name] = { baseUrl: baseUrl || undefined, organization: organization || undefined };
+    }
+  });
+
+  writeCookie(API_KEYS_COOKIE, apiKeys);
+  writeCookie(PROVIDERS_COOKIE, providers);
+  providerSettingsStore.set(settings);
+};
+
+// Model per pipeline stage, mirrored into the modelRouting cookie (see getModelRouting)
+export const modelRoutingStore = map<ModelRouting>({});
+
+export const loadModelRouting = () => {
+  modelRoutingStore.set(readCookie(MODEL_ROUTING_COOKIE));
+};
+
+export const saveModelRouting = (routing: ModelRouting) => {
+  writeCookie(MODEL_ROUTING_COOKIE, routing);
+  modelRoutingStore.set(routing);
+};
+
+// Lets the model read files and search the project in the WebContainer while it answers
+export const toolCallingStore = persistentAtom<boolean>('toolCalling', false, {
+  encode: JSON.stringify,
+  decode: JSON.parse,
+});
+
+// Also lets the model run shell commands in tool-calling mode. A separate opt-in, commands can change or delete
+// project files and install packages
+export const commandToolStore = persistentAtom<boolean>('commandTool', false, {
+  encode: JSON.stringify,
+  decode: JSON.parse,
+});
+
+// Shows the reasoning of thinking models above their answers
+export const showReasoningStore = persistentAtom<boolean>('showReasoning', true, {
+  encode: JSON.stringify,
+  decode: JSON.parse,
+});
@@ -0,0 +1,71 @@
+import { persistentMap } from '@nanostores/persistent';
+
+export interface ProjectUsage {
+  // USD spent across every priced message in the project
+  totalCost: number;
+  // Optional cap in USD, new requests are blocked once the total reaches it
+  budget?: number;
+  // Set once a message's cost was unknown or partial, totalCost is then only a lower bound
+  hasUnpricedUsage?: boolean;
+}
+
+// Running cost per project, persisted in localStorage under `projectUsage:<projectId>`
+export const projectUsageStore = persistentMap<Record<string, ProjectUsage | undefined>>(
+  'projectUsage:',
+  {},
+  {
+    encode: JSON.stringify,
+    decode: JSON.parse,
+  },
+);
+
+/**
+ * Adds a message's cost to its project's total
+ * @param cost USD, undefined when none of the message's models had pricing
+ * @param partial Whether the cost leaves out stages whose model had no pricing
+ */
+export const addProjectCost = (projectId: string, cost: number | undefined, partial = false) => {
+  const current = projectUsageStore.get()[projectId];
+  const unpriced = cost === undefined || partial;
+
+  projectUsageStore.setKey(projectId, {
+    ...current,
+    totalCost: (current?.totalCost || 0) + (cost || 0),
+    ...((unpriced || current?.hasUnpricedUsage) && { hasUnpricedUsage: true }),
+  });
+};
+
+export const setProjectBudget = (projectId: string, budget: number | undefined) => {
+  const current = projectUsageStore.get()[projectId];
+
+  projectUsageStore.setKey(projectId, { ...current, totalCost: current?.totalCost || 0, budget });
+};
+
+export const resetProjectCost = (projectId: string) => {
+  const current = projectUsageStore.get()[projectId];
+
+  projectUsageStore.setKey(projectId, { totalCost: 0, budget: current?.budget });
+};
+
+/**
+ * Checks whether a project's budget allows another request. Spending on models without pricing can't be checked
+ * against the cap, so a capped project stops once it has any
+ * @returns Why the request is refused, or undefined when it may go ahead
+ */
+export const getBudgetRefusal = (projectId: string): string | undefined => {
+  const usage = projectUsageStore.get()[projectId];
+
+  if (usage?.budget === undefined) {
+    return undefined;
+  }
+
+  if (usage.totalCost >= usage.budget) {
+    return 'Budget reached for this project. Raise or remove the cap to continue.';
+  }
+
+  if (usage.hasUnpricedUsage) {
+    return "A model used in this project has no pricing, so its spending can't be checked against the budget. Remove the cap, or reset the total and continue with priced models.";
+  }
+
+  return undefined;
+};
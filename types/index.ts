@@ -30,11 +30,170 @@ export interface ProgressAnnotation {
   [key: string]: any;
 }
 
+export type PipelineStage = 'summary' | 'context' | 'enhancer' | 'response' | 'continuation';
+
+export interface StageModel {
+  model: string;
+  provider: string;
+}
+
+// Model and provider per pipeline stage, stages left out use their default
+export type ModelRouting = Partial<Record<PipelineStage, StageModel>>;
+
+export interface UsageInfo {
+  completionTokens: number;
+  promptTokens: number;
+  totalTokens: number;
+  // USD, left out when no stage's model has pricing
+  cost?: number;
+  // Set when some stages' models have no pricing, the cost then covers only the priced stages
+  costPartial?: boolean;
+}
+
+// A path the context model named that is not a project file, with the closest project path when one is near
+export interface UnmatchedContextFile {
+  path: string;
+  suggestion?: string;
+}
+
+export interface CodeContextAnnotation extends ContextAnnotation {
+  type: 'codeContext';
+  files: string[];
+  unmatchedFiles?: UnmatchedContextFile[];
+}
+
+export interface UsageAnnotation extends ContextAnnotation {
+  type: 'usage';
+  value: UsageInfo;
+}
+
+// How a request was fitted into the model's context window, in tokens
+export interface TokenBudget {
+  contextLength: number;
+  reservedOutput: number;
+  systemPrompt: number;
+  fileList: number;
+  contextBuffer: number;
+  summary: number;
+  history: number;
+  droppedMessages: number;
+  droppedFiles: string[];
+  truncatedFiles: string[];
+}
+
+export interface BudgetAnnotation extends ContextAnnotation {
+  type: 'budget';
+  value: TokenBudget;
+}
+
+// The prompt the user selected could not be used, the default prompt answered instead
+export interface PromptFallbackAnnotation extends ContextAnnotation {
+  type: 'promptFallback';
+  promptId: string;
+  message: string;
+}
+
+// An image attached to a user message, sent to the model as an image part
+export interface ImageAttachment {
+  name: string;
+  mimeType: string;
+  // Base64 data URL, so the image travels in the JSON request body
+  dataUrl: string;
+}
+
+// Tools the model can call in tool-calling mode, all of them run in the browser's WebContainer
+export type ChatToolName = 'readFile' | 'listDirectory' | 'searchFiles' | 'runCommand';
+
+export type ChatErrorCode =
+  | 'missing-api-key'
+  | 'rate-limited'
+  | 'context-too-long'
+  | 'provider-unavailable'
+  | 'max-segments'
+  | 'invalid-request'
+  | 'budget-exceeded'
+  | 'unknown';
+
+// A failed chat request, sent as the JSON error body or as the data stream's error part
+export interface ChatError {
+  code: ChatErrorCode;
+  message: string;
+  // Whether sending the same request again can succeed
+  retryable: boolean;
+  // The pipeline stage that failed, when known
+  stage?: PipelineStage;
+  // Seconds to wait before retrying, from a rate limit
+  retryAfter?: number;
+  // Field-level problems of an invalid request body, `path` is dotted, e.g. `messages.0.role`
+  fields?: { path: string; message: string }[];
+}
+
+export type TraceAttributeValue = string | number | boolean | string[];
+
+// Something that happened during a span, e.g. the context selector falling back to the lexical index
+export interface TraceEvent {
+  name: string;
+  at: number;
+  attributes: Record<string, TraceAttributeValue>;
+}
+
+// A timed step of a chat request: one model call, or one tool call in tool-calling mode
+export interface TraceSpan {
+  id: string;
+  name: PipelineStage | 'tool';
+  startedAt: number;
+  endedAt?: number;
+  durationMs?: number;
+  status: 'running' | 'ok' | 'error';
+  model?: string;
+  provider?: string;
+  // The model the call fell back from, see withModelFallback
+  fallbackFrom?: string;
+  usage?: UsageInfo;
+  attributes: Record<string, TraceAttributeValue>;
+  events: TraceEvent[];
+  error?: ChatError;
+}
+
+// Structured record of one /api/chat request, browsable at /traces
+export interface ChatTrace {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  durationMs?: number;
+  status: 'running' | 'ok' | 'error' | 'aborted';
+  model: string;
+  provider: string;
+  messageCount: number;
+  // Prompt tokens of the whole chat history, before summary and trimming
+  historyTokens: number;
+  selectedFiles: string[];
+  usage: UsageInfo;
+  spans: TraceSpan[];
+  error?: ChatError;
+}
+
+// List entry of /api/traces, the spans are only sent with a single trace
+export type ChatTraceSummary = Omit<ChatTrace, 'spans' | 'selectedFiles'> & { spanCount: number };
+
 export interface ModelInfo {
   name: string;
   label: string;
   provider: string;
   maxTokenAllowed: number;
+  contextLength?: number;
+  // USD per token, as reported by the provider catalog
+  pricing?: {
+    prompt: number;
+    completion: number;
+  };
+}
+
+export interface ProviderDescription {
+  name: string;
+  apiKeyLink: string;
+  // Whether the provider talks to a configurable endpoint
+  hasBaseUrl: boolean;
 }
 
 export interface GitHubFile {